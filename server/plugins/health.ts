@@ -0,0 +1,12 @@
+import { startHealthChecks, stopHealthChecks } from '../utils/health'
+
+/**
+ * Nitro插件：启动账号健康检查调度，服务器关闭时停止
+ */
+export default defineNitroPlugin((nitroApp) => {
+  startHealthChecks()
+
+  nitroApp.hooks.hook('close', () => {
+    stopHealthChecks()
+  })
+})
@@ -20,11 +20,12 @@
  */
 
 // 导入 API 密钥验证函数
-import { CheckApiKey } from '~~/server/utils/config'
+import { CheckApiKey, getConfig } from '~~/server/utils/config'
 import { OpenaiCompletion } from '~~/server/utils/converter'
-import { dispatchMiddleContent } from '~~/server/utils/chat'
+import { applyThinkTags, dispatchMiddleContent } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
 
-export default defineEventHandler(async (event) => {
+export default defineProtocolEventHandler('openai', async (event) => {
   // ====== 1. 验证 API 密钥 ======
   // 从 Authorization 请求头提取密钥
   let apiKey = event.headers.get('Authorization') || ''
@@ -50,5 +51,12 @@ export default defineEventHandler(async (event) => {
   // dispatchMiddleContent 会根据 stream 参数返回:
   // - stream=true: Response (SSE 流)
   // - stream=false: OpenAICompletion (JSON 对象)
-  return await dispatchMiddleContent(middleContent)
+  const result = await dispatchMiddleContent(middleContent)
+
+  // 按配置将推理内容以 <think> 标签写入 content
+  if (getConfig()?.openai?.think_tags) {
+    return applyThinkTags(result)
+  }
+
+  return result
 })
@@ -0,0 +1,101 @@
+/**
+ * completions.post.ts - OpenAI 旧版 Completions API 兼容端点
+ *
+ * 路由: POST /v1/completions
+ *
+ * 兼容旧版文本补全格式（部分评测脚本和 IDE 插件仍在使用）。
+ *
+ * 工作流程:
+ * 1. 验证 API 密钥
+ * 2. 将 prompt（字符串或字符串数组）包装为 MiddleContent 用户消息
+ * 3. 按 prompt × n 生成补全任务，逐个分发到 Provider Handler
+ * 4. 返回 text_completion 对象或 chunk 流
+ *
+ * 参数支持情况:
+ * - echo: 在补全文本前输出原始 prompt
+ * - suffix: 通过系统说明要求模型输出插入内容
+ * - stop: 在首个停止序列处截断（由 Provider 在输出流上处理）
+ * - n: 每个 prompt 独立分发 n 次（最多 MAX_N 次，超出时返回 400）
+ * - 不支持 token 数组形式的 prompt、logprobs 和 best_of
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { OpenaiTextCompletion } from '~~/server/utils/converter'
+import { dispatchMiddleContent, openAISSEToTextCompletionSSE, openAIToTextCompletion, type OpenAICompletion } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+/** 每个 prompt 的最大补全数（任务串行占用账号，避免单个请求长时间占满账号池） */
+const MAX_N = 8
+
+export default defineProtocolEventHandler('openai', async (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  let apiKey = event.headers.get('Authorization') || ''
+  if (apiKey.startsWith('Bearer ')) {
+    apiKey = apiKey.slice(7)
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 解析并校验请求 ======
+  const body = await readBody(event)
+  const prompts: unknown[] = Array.isArray(body?.prompt) ? body.prompt : [body?.prompt ?? '']
+  if (prompts.length === 0) {
+    throw createError({
+      status: 400,
+      message: 'prompt must not be empty'
+    })
+  }
+  if (prompts.some(prompt => typeof prompt !== 'string')) {
+    throw createError({
+      status: 400,
+      message: 'Only string prompts are supported'
+    })
+  }
+
+  const n = body?.n == null ? 1 : Number(body.n)
+  if (!Number.isInteger(n) || n < 1 || n > MAX_N) {
+    throw createError({
+      status: 400,
+      message: `n must be an integer between 1 and ${MAX_N}`
+    })
+  }
+
+  // ====== 3. 生成补全任务（prompt × n） ======
+  const middleContents = OpenaiTextCompletion(body)
+  const jobs = middleContents.flatMap((middleContent, promptIndex) =>
+    Array.from({ length: n }, () => ({
+      echo: body.echo ? String(prompts[promptIndex]) : '',
+      dispatch: () => dispatchMiddleContent({ ...middleContent, n: 1 })
+    }))
+  )
+
+  // ====== 4. 分发并返回 ======
+  // 流式请求: 串行执行任务并输出 text_completion chunk
+  // 首个任务在返回响应前分发，开始输出前的错误按正常的错误响应返回
+  if (body.stream) {
+    const firstResult = await jobs[0]!.dispatch()
+    return openAISSEToTextCompletionSSE(jobs, body.model, firstResult)
+  }
+
+  // 非流式请求: 依次执行任务后合并为一个响应
+  const completions: OpenAICompletion[] = []
+  for (const job of jobs) {
+    const result = await job.dispatch()
+    if (result instanceof Response) {
+      throw createError({
+        status: 500,
+        message: 'Expected completion response from provider'
+      })
+    }
+    completions.push(result)
+  }
+
+  return openAIToTextCompletion(completions, {
+    echoes: jobs.map(job => job.echo)
+  })
+})
@@ -10,22 +10,23 @@
  * 2. 解析 Anthropic 格式请求体
  * 3. 转换为 MiddleContent 中间格式
  * 4. 分发到 Provider Handler（获取 OpenAI 格式响应）
- * 5. 转换响应为 Anthropic 格式
- *
- * 注意: 目前不支持 Anthropic 流式格式的完整转换，
- * stream=true 时直接返回 OpenAI SSE（客户端需自行处理）
+ * 5. 转换响应为 Anthropic 格式（stream=true 时转换为 Anthropic SSE 事件流）
  */
 
 import { CheckApiKey } from '~~/server/utils/config'
 import { AnthropicMessage } from '~~/server/utils/converter'
-import { dispatchMiddleContent, openAIToAnthropicResponse } from '~~/server/utils/chat'
+import { dispatchMiddleContent, openAISSEToAnthropicSSE, openAIToAnthropicResponse } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
 
-export default defineEventHandler(async (event) => {
+export default defineProtocolEventHandler('anthropic', async (event) => {
   // ====== 1. 验证 API 密钥 ======
   // Anthropic 使用 x-api-key 请求头，但也支持 Authorization
-  let apiKey = event.headers.get('Authorization') || ''
-  if (apiKey.startsWith('Bearer ')) {
-    apiKey = apiKey.slice(7)
+  let apiKey = event.headers.get('x-api-key') || ''
+  if (!apiKey) {
+    apiKey = event.headers.get('Authorization') || ''
+    if (apiKey.startsWith('Bearer ')) {
+      apiKey = apiKey.slice(7)
+    }
   }
 
   if (!CheckApiKey(apiKey)) {
@@ -44,9 +45,18 @@ export default defineEventHandler(async (event) => {
   const result = await dispatchMiddleContent(middleContent)
 
   // ====== 4. 处理响应 ======
-  // 流式请求直接返回（目前不做 Anthropic SSE 格式转换）
+  // 只有请求开启 thinking 时才输出 thinking 内容块
+  const options = { thinking: body.thinking?.type === 'enabled' }
+
+  // 流式请求: OpenAI SSE -> Anthropic SSE
   if (middleContent.stream) {
-    return result
+    if (!(result instanceof Response)) {
+      throw createError({
+        status: 500,
+        message: 'Expected stream response from provider'
+      })
+    }
+    return openAISSEToAnthropicSSE(result, middleContent.model, options)
   }
 
   // Response 类型直接返回（fallback 处理）
@@ -55,5 +65,5 @@ export default defineEventHandler(async (event) => {
   }
 
   // 非流式响应: OpenAI Completion -> Anthropic Message 格式
-  return openAIToAnthropicResponse(result)
+  return openAIToAnthropicResponse(result, options)
 })
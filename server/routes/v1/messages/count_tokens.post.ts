@@ -0,0 +1,47 @@
+/**
+ * count_tokens.post.ts - Anthropic Token 计数 API 兼容端点
+ *
+ * 路由: POST /v1/messages/count_tokens
+ *
+ * 兼容 Anthropic Count Tokens API 格式，客户端可在发送前据此裁剪上下文。
+ *
+ * 工作流程:
+ * 1. 验证 API 密钥（支持 x-api-key 或 Authorization 请求头）
+ * 2. 将 Anthropic 格式请求体转换为 MiddleContent
+ * 3. 使用提供商的 prompt 构造方式计算 token 数
+ * 4. 返回 { input_tokens }
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { AnthropicMessage } from '~~/server/utils/converter'
+import { countMiddleContentTokens } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+export default defineProtocolEventHandler('anthropic', async (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  let apiKey = event.headers.get('x-api-key') || ''
+  if (!apiKey) {
+    apiKey = event.headers.get('Authorization') || ''
+    if (apiKey.startsWith('Bearer ')) {
+      apiKey = apiKey.slice(7)
+    }
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 解析并转换请求 ======
+  const body = await readBody(event)
+  const middleContent = AnthropicMessage(body)
+
+  // ====== 3. 计算 token 数 ======
+  const inputTokens = await countMiddleContentTokens(middleContent)
+
+  return {
+    input_tokens: inputTokens
+  }
+})
@@ -1,18 +1,23 @@
 // 导入账号选择器函数
 import { getRegisteredModels } from '~~/server/utils/selector'
+import { listAnthropicModels, toOpenAIModel } from '~~/server/utils/models'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
 
 /**
  * 获取模型列表的 API 端点
  * 返回所有已注册的模型信息
+ *
+ * 请求携带 anthropic-version 请求头时按 Anthropic 格式返回（支持分页），
+ * 否则按 OpenAI 格式返回
  */
-export default defineEventHandler(() => {
+export default defineProtocolEventHandler(event => event.headers.get('anthropic-version') ? 'anthropic' : 'openai', (event) => {
+  // Anthropic SDK 会携带 anthropic-version 请求头
+  if (event.headers.get('anthropic-version')) {
+    return listAnthropicModels(getQuery(event))
+  }
+
   // 获取所有已注册的模型并转换为标准格式
-  const models = getRegisteredModels().map(model => ({
-    id: model.id, // 模型 ID
-    object: 'model', // 对象类型
-    created: model.created, // 创建时间戳
-    owned_by: model.owner // 模型所有者
-  }))
+  const models = getRegisteredModels().map(toOpenAIModel)
 
   return {
     object: 'list',
@@ -0,0 +1,28 @@
+// 导入模型格式转换函数
+import { findRegisteredModel, toAnthropicModel, toOpenAIModel } from '~~/server/utils/models'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+/**
+ * 获取单个模型信息的 API 端点
+ *
+ * 路由: GET /v1/models/{id}
+ *
+ * 请求携带 anthropic-version 请求头时按 Anthropic 格式返回，否则按 OpenAI 格式返回
+ */
+export default defineProtocolEventHandler(event => event.headers.get('anthropic-version') ? 'anthropic' : 'openai', (event) => {
+  const id = decodeURIComponent(getRouterParam(event, 'id') || '')
+  const model = findRegisteredModel(id)
+
+  if (!model) {
+    throw createError({
+      status: 404,
+      message: `Model not found: ${id}`
+    })
+  }
+
+  if (event.headers.get('anthropic-version')) {
+    return toAnthropicModel(model)
+  }
+
+  return toOpenAIModel(model)
+})
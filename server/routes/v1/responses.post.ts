@@ -0,0 +1,64 @@
+/**
+ * responses.post.ts - OpenAI Responses API 兼容端点
+ *
+ * 路由: POST /v1/responses
+ *
+ * 兼容 OpenAI Responses API 格式（新版 OpenAI SDK 与 Agent 工具使用）。
+ *
+ * 工作流程:
+ * 1. 验证 API 密钥
+ * 2. 解析 Responses 格式请求体（input 输入项、instructions 等）
+ * 3. 转换为 MiddleContent 中间格式
+ * 4. 分发到 Provider Handler（获取 OpenAI 格式响应）
+ * 5. 转换响应为 Responses 格式（stream=true 时转换为带类型的 SSE 事件流）
+ *
+ * 注意: 不支持 previous_response_id 等服务端状态，多轮对话需客户端回传完整 input
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { OpenaiResponses } from '~~/server/utils/converter'
+import { dispatchMiddleContent, openAISSEToResponsesSSE, openAIToResponsesResponse } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+export default defineProtocolEventHandler('openai', async (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  let apiKey = event.headers.get('Authorization') || ''
+  if (apiKey.startsWith('Bearer ')) {
+    apiKey = apiKey.slice(7)
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 解析并转换请求 ======
+  const body = await readBody(event)
+  // 将 Responses 格式请求转换为中间格式
+  const middleContent = OpenaiResponses(body)
+
+  // ====== 3. 分发请求 ======
+  const result = await dispatchMiddleContent(middleContent)
+
+  // ====== 4. 处理响应 ======
+  // 流式请求: OpenAI SSE -> Responses SSE
+  if (middleContent.stream) {
+    if (!(result instanceof Response)) {
+      throw createError({
+        status: 500,
+        message: 'Expected stream response from provider'
+      })
+    }
+    return openAISSEToResponsesSSE(result, middleContent.model)
+  }
+
+  // Response 类型直接返回（fallback 处理）
+  if (result instanceof Response) {
+    return result
+  }
+
+  // 非流式响应: OpenAI Completion -> Responses 格式
+  return openAIToResponsesResponse(result)
+})
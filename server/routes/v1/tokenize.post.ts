@@ -0,0 +1,58 @@
+/**
+ * tokenize.post.ts - OpenAI 风格 Token 计数端点
+ *
+ * 路由: POST /v1/tokenize
+ *
+ * OpenAI 官方没有 token 计数接口，本端点参考 vLLM 的 /tokenize 设计，
+ * 同时接受 Chat Completions 请求体（messages）和旧版 Completions 请求体（prompt）。
+ *
+ * 工作流程:
+ * 1. 验证 API 密钥
+ * 2. 按请求体形态转换为 MiddleContent
+ * 3. 使用提供商的 prompt 构造方式计算 token 数
+ * 4. 返回 { model, count }
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { OpenaiCompletion, OpenaiTextCompletion } from '~~/server/utils/converter'
+import { countMiddleContentTokens } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+export default defineProtocolEventHandler('openai', async (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  let apiKey = event.headers.get('Authorization') || ''
+  if (apiKey.startsWith('Bearer ')) {
+    apiKey = apiKey.slice(7)
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 解析并转换请求 ======
+  const body = await readBody(event)
+
+  let count = 0
+  if (Array.isArray(body?.messages)) {
+    // Chat Completions 请求体
+    count = await countMiddleContentTokens(OpenaiCompletion(body))
+  } else if (body?.prompt !== undefined) {
+    // 旧版 Completions 请求体（prompt 数组时累加）
+    for (const middleContent of OpenaiTextCompletion(body)) {
+      count += await countMiddleContentTokens(middleContent)
+    }
+  } else {
+    throw createError({
+      status: 400,
+      message: 'Either messages or prompt is required'
+    })
+  }
+
+  return {
+    model: body.model,
+    count
+  }
+})
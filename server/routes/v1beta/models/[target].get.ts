@@ -0,0 +1,49 @@
+/**
+ * [target].get.ts - Gemini 模型信息 API 兼容端点
+ *
+ * 路由: GET /v1beta/models/{model}
+ *
+ * 兼容 Gemini models.get，返回单个模型的元数据。
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { findRegisteredModel, toGeminiModel } from '~~/server/utils/models'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+export default defineProtocolEventHandler('gemini', (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  let apiKey = String(getQuery(event).key ?? '')
+
+  if (!apiKey) {
+    apiKey = event.headers.get('x-goog-api-key') || ''
+  }
+  if (!apiKey) {
+    apiKey = event.headers.get('x-api-key') || ''
+  }
+  if (!apiKey) {
+    apiKey = event.headers.get('Authorization') || ''
+    if (apiKey.startsWith('Bearer ')) {
+      apiKey = apiKey.slice(7)
+    }
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 查找模型 ======
+  const id = decodeURIComponent(getRouterParam(event, 'target') || '')
+  const model = findRegisteredModel(id)
+
+  if (!model) {
+    throw createError({
+      status: 404,
+      message: `Model not found: ${id}`
+    })
+  }
+
+  return toGeminiModel(model)
+})
@@ -6,6 +6,7 @@
  * 当前支持:
  * - action=generateContent
  * - action=streamGenerateContent（建议配合 ?alt=sse）
+ * - action=countTokens（返回 totalTokens）
  *
  * 工作流程:
  * 1. 验证 API 密钥（兼容 key 查询参数、x-goog-api-key、x-api-key、Authorization）
@@ -17,9 +18,10 @@
 
 import { CheckApiKey } from '~~/server/utils/config'
 import { GeminiGenerateContent } from '~~/server/utils/converter'
-import { dispatchMiddleContent, openAIToGeminiResponse, openAISSEToGeminiSSE } from '~~/server/utils/chat'
+import { countMiddleContentTokens, dispatchMiddleContent, openAIToGeminiResponse, openAISSEToGeminiSSE } from '~~/server/utils/chat'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
 
-export default defineEventHandler(async (event) => {
+export default defineProtocolEventHandler('gemini', async (event) => {
   // ====== 1. 验证 API 密钥 ======
   let apiKey = String(getQuery(event).key ?? '')
 
@@ -51,14 +53,14 @@ export default defineEventHandler(async (event) => {
   if (separatorIndex <= 0 || separatorIndex >= target.length - 1) {
     throw createError({
       status: 400,
-      message: 'Invalid path. Expected /v1beta/models/{model}:{generateContent|streamGenerateContent}'
+      message: 'Invalid path. Expected /v1beta/models/{model}:{generateContent|streamGenerateContent|countTokens}'
     })
   }
 
   const model = target.slice(0, separatorIndex)
   const action = target.slice(separatorIndex + 1)
 
-  if (action !== 'generateContent' && action !== 'streamGenerateContent') {
+  if (action !== 'generateContent' && action !== 'streamGenerateContent' && action !== 'countTokens') {
     throw createError({
       status: 404,
       message: `Unsupported Gemini action: ${action}`
@@ -67,6 +69,16 @@ export default defineEventHandler(async (event) => {
 
   // ====== 3. 解析并转换请求 ======
   const body = await readBody(event)
+
+  // countTokens: 请求体可以是 { contents } 或 { generateContentRequest }
+  if (action === 'countTokens') {
+    const countContent = GeminiGenerateContent(body?.generateContentRequest ?? body)
+    countContent.model = model
+    return {
+      totalTokens: await countMiddleContentTokens(countContent)
+    }
+  }
+
   const middleContent = GeminiGenerateContent(body)
   // 路径参数优先于请求体中的 model 字段
   middleContent.model = model
@@ -80,6 +92,9 @@ export default defineEventHandler(async (event) => {
   const result = await dispatchMiddleContent(middleContent)
 
   // ====== 5. 格式转换并返回 ======
+  // 只有请求开启 includeThoughts 时才输出推理 part
+  const options = { includeThoughts: body.generationConfig?.thinkingConfig?.includeThoughts === true }
+
   if (middleContent.stream) {
     if (!(result instanceof Response)) {
       throw createError({
@@ -87,12 +102,12 @@ export default defineEventHandler(async (event) => {
         message: 'Expected stream response from provider'
       })
     }
-    return openAISSEToGeminiSSE(result, model)
+    return openAISSEToGeminiSSE(result, model, options)
   }
 
   if (result instanceof Response) {
     return result
   }
 
-  return openAIToGeminiResponse(result)
+  return openAIToGeminiResponse(result, options)
 })
@@ -0,0 +1,40 @@
+/**
+ * index.get.ts - Gemini 模型列表 API 兼容端点
+ *
+ * 路由: GET /v1beta/models
+ *
+ * 兼容 Gemini models.list，支持 pageSize / pageToken 分页。
+ */
+
+import { CheckApiKey } from '~~/server/utils/config'
+import { listGeminiModels } from '~~/server/utils/models'
+import { defineProtocolEventHandler } from '~~/server/utils/errors'
+
+export default defineProtocolEventHandler('gemini', (event) => {
+  // ====== 1. 验证 API 密钥 ======
+  const query = getQuery(event)
+  let apiKey = String(query.key ?? '')
+
+  if (!apiKey) {
+    apiKey = event.headers.get('x-goog-api-key') || ''
+  }
+  if (!apiKey) {
+    apiKey = event.headers.get('x-api-key') || ''
+  }
+  if (!apiKey) {
+    apiKey = event.headers.get('Authorization') || ''
+    if (apiKey.startsWith('Bearer ')) {
+      apiKey = apiKey.slice(7)
+    }
+  }
+
+  if (!CheckApiKey(apiKey)) {
+    throw createError({
+      status: 401,
+      message: 'Unauthorized'
+    })
+  }
+
+  // ====== 2. 返回分页后的模型列表 ======
+  return listGeminiModels(query)
+})
@@ -0,0 +1,80 @@
+/**
+ * accountstate.ts - 账号状态存储模块
+ *
+ * 在内存中记录每个账号的健康状态，由后台健康检查（health.ts）写入，
+ * 供账号选择器（selector.ts）跳过不健康的账号。
+ *
+ * 记录内容：
+ * - status: unknown（尚未检查）、healthy（健康）、unhealthy（不健康）
+ * - lastCheckedAt: 最后一次检查时间
+ * - lastError: 最后一次检查失败的错误信息
+ * - latencyMs: 最后一次检查的耗时
+ *
+ * 核心函数：
+ * - getAccountState(): 获取账号状态
+ * - updateAccountState(): 更新账号状态
+ * - isAccountHealthy(): 判断账号是否可被选择（未检查的账号视为可用）
+ * - getAccountStates(): 获取所有账号状态
+ */
+
+/**
+ * 账号健康状态
+ */
+export type AccountHealthStatus = 'unknown' | 'healthy' | 'unhealthy'
+
+/**
+ * 账号状态
+ */
+export type AccountState = {
+  /** 健康状态 */
+  status: AccountHealthStatus
+  /** 最后一次检查时间（毫秒时间戳） */
+  lastCheckedAt?: number
+  /** 最后一次检查失败的错误信息（检查成功后清除） */
+  lastError?: string
+  /** 最后一次检查的耗时（毫秒） */
+  latencyMs?: number
+}
+
+// 账号状态映射表（文件名 -> 账号状态）
+const accountStates = new Map<string, AccountState>()
+
+/**
+ * 获取账号状态
+ *
+ * @param fileName - 账号文件名
+ * @returns 账号状态，尚未记录时为 unknown
+ */
+export function getAccountState(fileName: string): AccountState {
+  return accountStates.get(fileName) ?? { status: 'unknown' }
+}
+
+/**
+ * 更新账号状态
+ *
+ * @param fileName - 账号文件名
+ * @param state - 新的账号状态（整体替换）
+ */
+export function updateAccountState(fileName: string, state: AccountState) {
+  accountStates.set(fileName, state)
+}
+
+/**
+ * 判断账号是否可被选择
+ *
+ * 只有检查失败（unhealthy）的账号会被跳过
+ *
+ * @param fileName - 账号文件名
+ */
+export function isAccountHealthy(fileName: string) {
+  return accountStates.get(fileName)?.status !== 'unhealthy'
+}
+
+/**
+ * 获取所有已记录的账号状态
+ *
+ * @returns 账号文件名与状态的数组
+ */
+export function getAccountStates() {
+  return Array.from(accountStates.entries()).map(([fileName, state]) => ({ fileName, ...state }))
+}
@@ -2,13 +2,57 @@
  * chat.ts - 聊天请求分发与响应格式转换模块
  *
  * 本模块负责:
- * 1. 将中间格式（MiddleContent）分发到对应的 Provider Handler
+ * 1. 将中间格式（MiddleContent）分发到对应的 Provider Handler（以及 token 计数）
  * 2. 将 OpenAI SSE 格式聚合为完整的 OpenAI Completion 响应
- * 3. 在不同 API 格式之间转换响应（OpenAI <-> Gemini, OpenAI <-> Anthropic）
+ * 3. 在不同 API 格式之间转换响应（OpenAI <-> Gemini/Anthropic/Responses/旧版文本补全），包括流式 SSE
  */
 
 import type { MiddleContent } from './converter'
-import { resolveHandlerByModel } from './handler'
+import { fromOpenAIError, toAnthropicError, toGeminiError, toOpenAIError } from './errors'
+import { resolveHandlerByModel, resolveTokenCounterByModel } from './handler'
+
+/**
+ * OpenAI 工具调用类型定义
+ */
+export type OpenAIToolCall = {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    /** JSON 字符串形式的参数 */
+    arguments: string
+  }
+}
+
+/**
+ * OpenAI url_citation 注解类型定义
+ *
+ * 联网搜索时标出正文中的引用位置（字符位置，基于完整 content）
+ */
+export type OpenAIUrlCitation = {
+  type: 'url_citation'
+  url_citation: {
+    start_index: number
+    end_index: number
+    url: string
+    title: string
+  }
+}
+
+/**
+ * 联网搜索结果类型定义
+ *
+ * 非 OpenAI 标准字段，由 Provider 在 delta.search_results 中输出，
+ * 用于生成 Gemini groundingMetadata 与 Anthropic web_search_tool_result
+ */
+export type OpenAISearchResult = {
+  /** 引用序号 */
+  index?: number
+  url: string
+  title: string
+  /** 摘要 */
+  snippet?: string
+}
 
 /**
  * OpenAI Chat Completion 响应类型定义
@@ -35,57 +79,79 @@ export type OpenAICompletion = {
       content: string
       /** 推理/思考过程内容（DeepSeek R1 等模型支持） */
       reasoning_content?: string
+      /** 工具调用列表 */
+      tool_calls?: OpenAIToolCall[]
+      /** 联网搜索引用注解 */
+      annotations?: OpenAIUrlCitation[]
+      /** 联网搜索结果（扩展字段） */
+      search_results?: OpenAISearchResult[]
     }
-    /** 停止原因：stop=正常结束, length=达到长度限制, null=进行中 */
+    /** 停止原因：stop=正常结束, length=达到长度限制, tool_calls=工具调用, null=进行中 */
     finish_reason: string | null
+    /** 命中的停止序列（vLLM 扩展字段，仅在因停止序列结束时存在） */
+    stop_reason?: string
   }>
   /** Token 使用统计（可选） */
   usage?: Record<string, unknown>
 }
 
 /**
- * 将 SSE 流聚合为 OpenAI Completion 对象
+ * Gemini 响应转换选项
+ */
+export type GeminiResponseOptions = {
+  /** 是否输出 thought: true 的推理 part（对应 thinkingConfig.includeThoughts） */
+  includeThoughts?: boolean
+}
+
+/**
+ * Anthropic 响应转换选项
+ */
+export type AnthropicResponseOptions = {
+  /** 是否输出 thinking 内容块（对应请求的 thinking 参数） */
+  thinking?: boolean
+}
+
+/**
+ * SSE 响应通用请求头
+ */
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive'
+}
+
+/**
+ * OpenAI SSE 流中解析出的事件
  *
- * 工作流程：
- * 1. 逐块读取 SSE 流
- * 2. 解析每个 "data: {...}" 行
- * 3. 累积 content 和 reasoning_content
- * 4. 提取元数据（id, model, created, usage）
- * 5. 组装完整的 OpenAICompletion 对象
+ * - chunk: 一条 "data: {...}" JSON 数据
+ * - comment: 注释行（如 handler 发出的 ": keep-alive" 心跳）
+ * - done: "data: [DONE]" 结束标记
+ */
+type OpenAISSEEvent
+  = | { type: 'chunk', chunk: Record<string, unknown> }
+    | { type: 'comment' }
+    | { type: 'done' }
+
+/**
+ * 逐行读取 OpenAI 格式 SSE 流
  *
- * @param middleContent - 原始请求的中间格式，用于获取 fallback 值
- * @param sseResponse - Provider Handler 返回的 SSE 流响应
- * @returns Promise<OpenAICompletion> 聚合后的完整响应
+ * 统一处理缓冲、分行与 JSON 解析，供各响应格式转换器复用。
+ * 读到 [DONE] 或流结束时返回，并释放 reader。
+ * 读到错误事件（{ error: {...} }）时抛出对应的 H3 错误。
  *
- * @throws 当 Provider 返回空 body 时抛出 502 错误
+ * @param reader - SSE 流的 reader
+ * @param onEvent - 事件回调，返回 false 时停止读取
  */
-async function aggregateSseToOpenAICompletion(middleContent: MiddleContent, sseResponse: Response): Promise<OpenAICompletion> {
-  if (!sseResponse.body) {
-    throw createError({
-      status: 502,
-      message: 'Provider returned empty stream body'
-    })
-  }
-
-  const reader = sseResponse.body.getReader()
+async function readOpenAISSE(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onEvent: (event: OpenAISSEEvent) => unknown
+) {
   const decoder = new TextDecoder()
 
   // SSE 解析缓冲区
   let buffer = ''
 
-  // 响应元数据（从流中提取，有默认值）
-  let responseId = ''
-  let responseModel = middleContent.model
-  let responseCreated = Math.floor(Date.now() / 1000)
-  let finishReason: string | null = 'stop'
-
-  // 内容累积器
-  let content = ''
-  let reasoningContent = ''
-  let usage: Record<string, unknown> | undefined
-
   try {
-    // 循环读取流直到结束
     while (true) {
       const { done, value } = await reader.read()
       if (done) break
@@ -99,14 +165,25 @@ async function aggregateSseToOpenAICompletion(middleContent: MiddleContent, sseR
 
       for (const rawLine of lines) {
         const line = rawLine.trim()
-        // 跳过空行和注释行
-        if (!line || line.startsWith(':')) continue
+        if (!line) continue
+
+        // 注释行（心跳）
+        if (line.startsWith(':')) {
+          if (await onEvent({ type: 'comment' }) === false) return
+          continue
+        }
+
         // 只处理 data: 开头的行
         if (!line.startsWith('data:')) continue
 
         const data = line.slice(5).trim()
-        // 跳过空数据和结束标记
-        if (!data || data === '[DONE]') continue
+        if (!data) continue
+
+        // 处理结束标记
+        if (data === '[DONE]') {
+          await onEvent({ type: 'done' })
+          return
+        }
 
         // 解析 JSON 数据
         let chunk: Record<string, unknown>
@@ -116,43 +193,213 @@ async function aggregateSseToOpenAICompletion(middleContent: MiddleContent, sseR
           continue
         }
 
-        // 提取元数据
-        if (typeof chunk.id === 'string' && chunk.id) {
-          responseId = chunk.id
-        }
-        if (typeof chunk.model === 'string' && chunk.model) {
-          responseModel = chunk.model
+        // Provider 中途出错时输出的错误事件
+        if (chunk.error && typeof chunk.error === 'object') {
+          throw fromOpenAIError(chunk.error)
         }
-        if (typeof chunk.created === 'number') {
-          responseCreated = chunk.created
-        }
-        if (chunk.usage && typeof chunk.usage === 'object') {
-          usage = chunk.usage as Record<string, unknown>
-        }
-
-        // 处理 choices 数组中的增量内容
-        const choices = Array.isArray(chunk.choices) ? chunk.choices : []
-        for (const choice of choices) {
-          if (choice?.finish_reason != null) {
-            finishReason = String(choice.finish_reason)
-          }
 
-          const delta = choice?.delta
-          if (!delta || typeof delta !== 'object') continue
-
-          // 累积内容
-          if (typeof delta.content === 'string') {
-            content += delta.content
-          }
-          if (typeof delta.reasoning_content === 'string') {
-            reasoningContent += delta.reasoning_content
-          }
-        }
+        if (await onEvent({ type: 'chunk', chunk }) === false) return
       }
     }
   } finally {
     reader.releaseLock()
   }
+}
+
+/**
+ * 将增量工具调用合并到累积列表
+ *
+ * OpenAI 流式工具调用按 index 分片下发：首个分片携带 id/name，
+ * 后续分片只追加 arguments 字符串
+ *
+ * @param toolCalls - 累积的工具调用列表（按 index 存放）
+ * @param deltas - delta.tool_calls 原始值
+ * @returns 本次出现的新工具调用的 index 列表
+ */
+function mergeToolCallDeltas(toolCalls: OpenAIToolCall[], deltas: unknown) {
+  const created: number[] = []
+  if (!Array.isArray(deltas)) return created
+
+  for (const item of deltas) {
+    if (!item || typeof item !== 'object') continue
+    const index = typeof item.index === 'number' ? item.index : toolCalls.length
+    const fn = item.function && typeof item.function === 'object' ? item.function : {}
+
+    let toolCall = toolCalls[index]
+    if (!toolCall) {
+      toolCall = {
+        id: typeof item.id === 'string' && item.id ? item.id : `call_${index}`,
+        type: 'function',
+        function: { name: '', arguments: '' }
+      }
+      toolCalls[index] = toolCall
+      created.push(index)
+    }
+    if (typeof fn.name === 'string') {
+      toolCall.function.name += fn.name
+    }
+    if (typeof fn.arguments === 'string') {
+      toolCall.function.arguments += fn.arguments
+    }
+  }
+
+  return created
+}
+
+/**
+ * 将工具调用参数字符串解析为对象
+ *
+ * Anthropic tool_use.input 与 Gemini functionCall.args 都要求对象，
+ * 解析失败时返回空对象
+ *
+ * @param args - JSON 字符串形式的参数
+ */
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}') as unknown
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>
+    }
+  } catch {
+    // 解析失败，忽略错误
+  }
+  return {}
+}
+
+/**
+ * 解析 delta.annotations 中的 url_citation 注解
+ *
+ * @param value - delta.annotations 原始值
+ */
+function toUrlCitations(value: unknown): OpenAIUrlCitation[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is OpenAIUrlCitation => item?.type === 'url_citation' && Boolean(item.url_citation?.url))
+}
+
+/**
+ * 解析 delta.search_results 中的搜索结果
+ *
+ * @param value - delta.search_results 原始值
+ */
+function toSearchResults(value: unknown): OpenAISearchResult[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is OpenAISearchResult => typeof item?.url === 'string' && Boolean(item.url))
+}
+
+/**
+ * 计算每个引用所支撑的文本片段
+ *
+ * 片段为引用标记之前的最后一个句子（以换行、句末标点或上一个引用标记分隔）；
+ * 紧跟在另一个引用标记之后的引用与前者共用片段
+ *
+ * @param content - 完整正文
+ * @param annotations - 按出现顺序排列的引用注解
+ * @returns 与 annotations 一一对应的片段（字符位置与文本）
+ */
+function resolveCitedSegments(content: string, annotations: OpenAIUrlCitation[]) {
+  const segments: Array<{ start: number, end: number, text: string }> = []
+
+  for (const [index, annotation] of annotations.entries()) {
+    const markerStart = annotation.url_citation.start_index
+    const previous = annotations[index - 1]
+    if (previous && previous.url_citation.end_index === markerStart) {
+      segments.push(segments[index - 1]!)
+      continue
+    }
+
+    // 片段不跨越上一个引用标记
+    const before = content.slice(0, markerStart).trimEnd()
+    const sentence = before.match(/[^\n.!?。！？]*[.!?。！？]*$/)?.[0] ?? ''
+    let start = Math.max(before.length - sentence.length, Math.min(previous?.url_citation.end_index ?? 0, before.length))
+    while (start < before.length && /\s/.test(before[start]!)) start += 1
+    segments.push({ start, end: before.length, text: before.slice(start) })
+  }
+
+  return segments
+}
+
+/**
+ * 将 SSE 流聚合为 OpenAI Completion 对象
+ *
+ * 工作流程：
+ * 1. 逐块读取 SSE 流
+ * 2. 解析每个 "data: {...}" 行
+ * 3. 累积 content、reasoning_content、tool_calls 以及搜索结果与引用注解
+ * 4. 提取元数据（id, model, created, usage）
+ * 5. 组装完整的 OpenAICompletion 对象
+ *
+ * @param middleContent - 原始请求的中间格式，用于获取 fallback 值
+ * @param sseResponse - Provider Handler 返回的 SSE 流响应
+ * @returns Promise<OpenAICompletion> 聚合后的完整响应
+ *
+ * @throws 当 Provider 返回空 body 时抛出 502 错误
+ */
+async function aggregateSseToOpenAICompletion(middleContent: MiddleContent, sseResponse: Response): Promise<OpenAICompletion> {
+  if (!sseResponse.body) {
+    throw createError({
+      status: 502,
+      message: 'Provider returned empty stream body'
+    })
+  }
+
+  // 响应元数据（从流中提取，有默认值）
+  let responseId = ''
+  let responseModel = middleContent.model
+  let responseCreated = Math.floor(Date.now() / 1000)
+  let finishReason: string | null = 'stop'
+  let stopReason: string | undefined
+
+  // 内容累积器
+  let content = ''
+  let reasoningContent = ''
+  const toolCalls: OpenAIToolCall[] = []
+  const annotations: OpenAIUrlCitation[] = []
+  const searchResults: OpenAISearchResult[] = []
+  let usage: Record<string, unknown> | undefined
+
+  await readOpenAISSE(sseResponse.body.getReader(), (event) => {
+    if (event.type !== 'chunk') return
+    const chunk = event.chunk
+
+    // 提取元数据
+    if (typeof chunk.id === 'string' && chunk.id) {
+      responseId = chunk.id
+    }
+    if (typeof chunk.model === 'string' && chunk.model) {
+      responseModel = chunk.model
+    }
+    if (typeof chunk.created === 'number') {
+      responseCreated = chunk.created
+    }
+    if (chunk.usage && typeof chunk.usage === 'object') {
+      usage = chunk.usage as Record<string, unknown>
+    }
+
+    // 处理 choices 数组中的增量内容
+    const choices = Array.isArray(chunk.choices) ? chunk.choices : []
+    for (const choice of choices) {
+      if (choice?.finish_reason != null) {
+        finishReason = String(choice.finish_reason)
+      }
+      if (typeof choice?.stop_reason === 'string') {
+        stopReason = choice.stop_reason
+      }
+
+      const delta = choice?.delta
+      if (!delta || typeof delta !== 'object') continue
+
+      // 累积内容
+      if (typeof delta.content === 'string') {
+        content += delta.content
+      }
+      if (typeof delta.reasoning_content === 'string') {
+        reasoningContent += delta.reasoning_content
+      }
+      mergeToolCallDeltas(toolCalls, delta.tool_calls)
+      annotations.push(...toUrlCitations(delta.annotations))
+      searchResults.push(...toSearchResults(delta.search_results))
+    }
+  })
 
   // 组装最终响应
   return {
@@ -167,9 +414,16 @@ async function aggregateSseToOpenAICompletion(middleContent: MiddleContent, sseR
           role: 'assistant',
           content,
           // 只在有推理内容时包含该字段
-          ...(reasoningContent ? { reasoning_content: reasoningContent } : {})
+          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+          // 只在有工具调用时包含该字段
+          ...(toolCalls.length ? { tool_calls: toolCalls.filter(Boolean) } : {}),
+          // 只在联网搜索时包含以下字段
+          ...(annotations.length ? { annotations } : {}),
+          ...(searchResults.length ? { search_results: searchResults } : {})
         },
-        finish_reason: finishReason
+        finish_reason: finishReason,
+        // 只在命中停止序列时包含该字段
+        ...(stopReason !== undefined ? { stop_reason: stopReason } : {})
       }
     ],
     // 只在有 usage 时包含该字段
@@ -230,23 +484,20 @@ export async function dispatchMiddleContent(middleContent: MiddleContent): Promi
 }
 
 /**
- * 将 OpenAI SSE 流实时转换为 Gemini SSE 流
- *
- * 用于 Gemini API 兼容层的流式响应。
- * 逐块读取 OpenAI 格式 SSE，转换为 Gemini 格式后立即输出。
+ * 逐 chunk 改写 OpenAI SSE 流
  *
- * 格式转换规则：
- * - OpenAI delta.content -> Gemini candidates[0].content.parts[0].text
- * - OpenAI finish_reason -> Gemini candidates[0].finishReason: "STOP"
- * - OpenAI model -> Gemini modelVersion
+ * 注释行与 [DONE] 原样透传，每个 chunk 交给 transform 处理后重新输出
  *
  * @param sseResponse - OpenAI 格式的 SSE 流响应
- * @param fallbackModel - 当流中没有 model 字段时使用的默认值
- * @returns Response 包含 Gemini 格式 SSE 的新响应
- *
- * @throws 当输入流 body 为空时抛出 502 错误
+ * @param transform - 改写函数，返回需要输出的 chunk 列表（可为空）
+ * @param flush - 上游结束（[DONE] 之前）时追加输出的 chunk
+ * @returns Response 改写后的 OpenAI SSE 流响应
  */
-export function openAISSEToGeminiSSE(sseResponse: Response, fallbackModel: string): Response {
+function transformOpenAISSE(
+  sseResponse: Response,
+  transform: (chunk: Record<string, unknown>) => Array<Record<string, unknown>>,
+  flush?: () => Array<Record<string, unknown>>
+): Response {
   if (!sseResponse.body) {
     throw createError({
       status: 502,
@@ -255,164 +506,1388 @@ export function openAISSEToGeminiSSE(sseResponse: Response, fallbackModel: strin
   }
 
   const sourceReader = sseResponse.body.getReader()
-  const decoder = new TextDecoder()
   const encoder = new TextEncoder()
 
-  // SSE 解析缓冲区
-  let buffer = ''
-
-  // 创建转换后的输出流
   const output = new ReadableStream<Uint8Array>({
     async start(controller) {
-      try {
-        while (true) {
-          const { done, value } = await sourceReader.read()
-          if (done) {
-            break
-          }
-          if (!value) {
-            continue
-          }
-
-          // 追加到缓冲区并按行分割
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          buffer = lines.pop() ?? ''
-
-          for (const rawLine of lines) {
-            const line = rawLine.trim()
-            // 跳过空行和注释
-            if (!line || line.startsWith(':')) continue
-            if (!line.startsWith('data:')) continue
-
-            const data = line.slice(5).trim()
-            if (!data) continue
-
-            // 处理结束标记
-            if (data === '[DONE]') {
-              controller.enqueue(encoder.encode('data: [DONE]\n\n'))
-              controller.close()
-              return
-            }
-
-            // 解析 OpenAI 格式 chunk
-            let chunk: Record<string, unknown>
-            try {
-              chunk = JSON.parse(data) as Record<string, unknown>
-            } catch {
-              continue
-            }
-
-            // 提取字段
-            const model = typeof chunk.model === 'string' && chunk.model ? chunk.model : fallbackModel
-            const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
-            const delta = choice?.delta && typeof choice.delta === 'object' ? choice.delta : {}
-            const text = typeof delta.content === 'string' ? delta.content : ''
-
-            // 构造 Gemini 格式 chunk
-            const geminiChunk = {
-              candidates: [
-                {
-                  content: {
-                    role: 'model',
-                    parts: [{ text }]
-                  },
-                  // 只在有 finish_reason 时设置 finishReason
-                  finishReason: choice?.finish_reason ? 'STOP' : undefined,
-                  index: 0
-                }
-              ],
-              modelVersion: model
-            }
+      const sendChunks = (chunks: Array<Record<string, unknown>>) => {
+        for (const chunk of chunks) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`))
+        }
+      }
 
-            // 输出 Gemini 格式 SSE
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(geminiChunk)}\n\n`))
+      try {
+        let doneSeen = false
+        await readOpenAISSE(sourceReader, (event) => {
+          if (event.type === 'comment') {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'))
+          } else if (event.type === 'chunk') {
+            sendChunks(transform(event.chunk))
+          } else {
+            doneSeen = true
           }
-        }
+        })
 
+        if (flush) sendChunks(flush())
+        if (doneSeen) controller.enqueue(encoder.encode('data: [DONE]\n\n'))
         controller.close()
       } catch (error) {
-        controller.error(error)
-      } finally {
-        sourceReader.releaseLock()
+        // 中途出错时输出 OpenAI 格式的错误事件
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(toOpenAIError(error))}\n\n`))
+        controller.close()
       }
+    },
+    cancel(reason) {
+      // 客户端断开时取消上游流，由 Provider 中止上游请求并释放账号
+      return sourceReader.cancel(reason)
     }
   })
 
-  return new Response(output, {
-    headers: {
-      'Content-Type': 'text/event-stream; charset=utf-8',
-      'Cache-Control': 'no-cache, no-transform',
-      'Connection': 'keep-alive'
-    }
-  })
+  return new Response(output, { headers: SSE_HEADERS })
 }
 
 /**
- * 将 OpenAI Completion 转换为 Gemini generateContent 响应格式
+ * 将推理内容以 <think> 标签包裹写入 content
  *
- * 用于 Gemini API 兼容层的非流式响应。
+ * 用于不识别 reasoning_content 字段的 OpenAI 客户端，
+ * 由 config.yaml 中的 openai.think_tags 开启。
+ * 流式响应逐 chunk 改写，非流式响应直接拼接到 content 前；
+ * 引用注解的位置随插入的内容后移。
  *
- * @param openai - OpenAI 格式的完整响应
- * @returns Gemini generateContent 响应格式
+ * @param result - dispatchMiddleContent 的返回值
+ * @returns 改写后的响应
  */
-export function openAIToGeminiResponse(openai: OpenAICompletion) {
-  const message = openai.choices?.[0]?.message
-  const usage = openai.usage as Record<string, number> | undefined
+export function applyThinkTags(result: Response | OpenAICompletion): Response | OpenAICompletion {
+  // 非流式：直接拼接
+  if (!(result instanceof Response)) {
+    for (const choice of result.choices) {
+      const reasoning = choice.message.reasoning_content
+      if (!reasoning) continue
+      const prefix = `<think>\n${reasoning}\n</think>\n\n`
+      choice.message.content = prefix + choice.message.content
+      delete choice.message.reasoning_content
+      shiftUrlCitations(choice.message.annotations, prefix.length)
+    }
+    return result
+  }
 
-  return {
-    candidates: [
-      {
-        content: {
-          role: 'model',
-          parts: [
-            {
-              text: message?.content ?? ''
-            }
-          ]
-        },
-        finishReason: 'STOP',
-        index: 0
-      }
-    ],
-    usageMetadata: {
-      promptTokenCount: usage?.prompt_tokens ?? 0,
-      candidatesTokenCount: usage?.completion_tokens ?? 0,
-      totalTokenCount: usage?.total_tokens ?? 0
-    },
-    modelVersion: openai.model
+  // 流式：推理开始时输出 <think>，推理之后的第一个非推理 chunk（内容、工具调用或结束）前输出 </think>
+  let thinking = false
+  // 已插入 content 的字符数（用于后移引用注解）
+  let inserted = 0
+  // 最近一个 chunk（上游结束时仍在推理中，用于构造补齐 </think> 的 chunk）
+  let lastChunk: Record<string, unknown> | null = null
+  return transformOpenAISSE(result, (chunk) => {
+    lastChunk = chunk
+    const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
+    if (!choice || typeof choice !== 'object') return [chunk]
+    if (!choice.delta || typeof choice.delta !== 'object') {
+      if (!thinking || choice.finish_reason == null) return [chunk]
+      choice.delta = {}
+    }
+    const delta = choice.delta
+
+    const reasoning = typeof delta.reasoning_content === 'string' ? delta.reasoning_content : ''
+    delete delta.reasoning_content
+
+    let prefix = ''
+    if (reasoning) {
+      prefix = (thinking ? '' : '<think>\n') + reasoning
+      thinking = true
+    }
+    if (thinking && (delta.content || delta.tool_calls || choice.finish_reason != null)) {
+      prefix += '\n</think>\n\n'
+      thinking = false
+    }
+    if (prefix) {
+      delta.content = prefix + (typeof delta.content === 'string' ? delta.content : '')
+      inserted += prefix.length
+    }
+
+    shiftUrlCitations(toUrlCitations(delta.annotations), inserted)
+    return [chunk]
+  }, () => {
+    if (!thinking || !lastChunk) return []
+    thinking = false
+    const { id, object, created, model } = lastChunk
+    return [{ id, object, created, model, choices: [{ index: 0, delta: { content: '\n</think>\n\n' }, finish_reason: null }] }]
+  })
+}
+
+/**
+ * 将引用注解的位置整体后移
+ *
+ * @param annotations - 引用注解（原地修改）
+ * @param offset - 后移的字符数
+ */
+function shiftUrlCitations(annotations: OpenAIUrlCitation[] | undefined, offset: number) {
+  if (!offset) return
+  for (const annotation of annotations ?? []) {
+    annotation.url_citation.start_index += offset
+    annotation.url_citation.end_index += offset
   }
 }
 
 /**
- * 将 OpenAI Completion 转换为 Anthropic messages 响应格式
+ * 计算 MiddleContent 的输入 token 数
  *
- * 用于 Anthropic API 兼容层的响应。
+ * 交给模型所属提供商的计数函数处理，计数使用与实际请求相同的 prompt 构造方式，
+ * 供各协议的 count_tokens 类端点使用
  *
- * @param openai - OpenAI 格式的完整响应
- * @returns Anthropic messages 响应格式
+ * @param middleContent - 请求的中间格式
+ * @returns Promise<number> 输入 token 数
+ *
+ * @throws 当模型未注册时抛出 400 错误
+ * @throws 当提供商不支持 token 计数时抛出 501 错误
  */
-export function openAIToAnthropicResponse(openai: OpenAICompletion) {
-  const message = openai.choices?.[0]?.message
-  const choice = openai.choices?.[0]
-  const usage = openai.usage as Record<string, number> | undefined
-
-  return {
-    id: openai.id,
-    type: 'message',
-    role: 'assistant',
-    model: openai.model,
-    content: [
+export async function countMiddleContentTokens(middleContent: MiddleContent): Promise<number> {
+  const resolved = resolveTokenCounterByModel(middleContent.model)
+  if (!resolved) {
+    // 区分模型未注册与提供商不支持计数两种情况
+    if (!resolveHandlerByModel(middleContent.model)) {
+      throw createError({
+        status: 400,
+        message: `Model not registered: ${middleContent.model}`
+      })
+    }
+    throw createError({
+      status: 501,
+      message: `Token counting not supported for model: ${middleContent.model}`
+    })
+  }
+
+  return await resolved.counter(middleContent)
+}
+
+/**
+ * 将 OpenAI SSE 流实时转换为 Gemini SSE 流
+ *
+ * 用于 Gemini API 兼容层的流式响应。
+ * 逐块读取 OpenAI 格式 SSE，转换为 Gemini 格式后立即输出。
+ *
+ * 格式转换规则：
+ * - OpenAI delta.content -> Gemini candidates[0].content.parts[].text
+ * - OpenAI delta.reasoning_content -> Gemini thought: true part（需开启 includeThoughts）
+ * - OpenAI delta.tool_calls -> Gemini functionCall part（参数完整后随结束 chunk 输出）
+ * - delta.search_results 与 delta.annotations -> Gemini groundingMetadata（随结束 chunk 输出）
+ * - OpenAI finish_reason -> Gemini candidates[0].finishReason
+ * - OpenAI usage -> Gemini usageMetadata
+ * - OpenAI model -> Gemini modelVersion
+ *
+ * @param sseResponse - OpenAI 格式的 SSE 流响应
+ * @param fallbackModel - 当流中没有 model 字段时使用的默认值
+ * @param options - 转换选项
+ * @returns Response 包含 Gemini 格式 SSE 的新响应
+ *
+ * @throws 当输入流 body 为空时抛出 502 错误
+ */
+export function openAISSEToGeminiSSE(sseResponse: Response, fallbackModel: string, options: GeminiResponseOptions = {}): Response {
+  if (!sseResponse.body) {
+    throw createError({
+      status: 502,
+      message: 'Provider returned empty stream body'
+    })
+  }
+
+  const sourceReader = sseResponse.body.getReader()
+  const encoder = new TextEncoder()
+
+  // 累积的工具调用（Gemini 要求 functionCall.args 为完整对象）
+  const toolCalls: OpenAIToolCall[] = []
+  // 累积的正文、引用注解与搜索结果（结束时生成 groundingMetadata）
+  let content = ''
+  const annotations: OpenAIUrlCitation[] = []
+  const searchResults: OpenAISearchResult[] = []
+
+  // 创建转换后的输出流
+  const output = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        await readOpenAISSE(sourceReader, (event) => {
+          // 处理结束标记
+          if (event.type === 'done') {
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+            return
+          }
+          if (event.type !== 'chunk') return
+          const chunk = event.chunk
+
+          // 提取字段
+          const model = typeof chunk.model === 'string' && chunk.model ? chunk.model : fallbackModel
+          const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
+          const delta = choice?.delta && typeof choice.delta === 'object' ? choice.delta : {}
+          const text = typeof delta.content === 'string' ? delta.content : ''
+          const thought = typeof delta.reasoning_content === 'string' ? delta.reasoning_content : ''
+          const usage = chunk.usage && typeof chunk.usage === 'object' ? chunk.usage as Record<string, unknown> : undefined
+          mergeToolCallDeltas(toolCalls, delta.tool_calls)
+          content += text
+          annotations.push(...toUrlCitations(delta.annotations))
+          searchResults.push(...toSearchResults(delta.search_results))
+
+          const parts: Array<Record<string, unknown>> = []
+          if (thought && options.includeThoughts) {
+            parts.push({ text: thought, thought: true })
+          }
+          if (text) {
+            parts.push({ text })
+          }
+
+          // 结束时输出累积的函数调用
+          if (choice?.finish_reason) {
+            for (const toolCall of toolCalls.filter(Boolean)) {
+              parts.push({
+                functionCall: {
+                  name: toolCall.function.name,
+                  args: parseToolArguments(toolCall.function.arguments)
+                }
+              })
+            }
+            toolCalls.length = 0
+          }
+
+          // 没有任何内容的中间 chunk 不输出
+          if (!parts.length && !choice?.finish_reason) return
+
+          // 结束时附带联网搜索的 groundingMetadata
+          const groundingMetadata = choice?.finish_reason
+            ? toGeminiGroundingMetadata(content, searchResults, annotations)
+            : undefined
+
+          // 构造 Gemini 格式 chunk
+          const geminiChunk = {
+            candidates: [
+              {
+                content: {
+                  role: 'model',
+                  parts: parts.length ? parts : [{ text: '' }]
+                },
+                // 只在有 finish_reason 时设置 finishReason
+                finishReason: choice?.finish_reason ? toGeminiFinishReason(choice.finish_reason) : undefined,
+                ...(groundingMetadata ? { groundingMetadata } : {}),
+                index: 0
+              }
+            ],
+            // 只在有 usage 时包含该字段
+            ...(usage ? { usageMetadata: toGeminiUsage(usage) } : {}),
+            modelVersion: model
+          }
+
+          // 输出 Gemini 格式 SSE
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(geminiChunk)}\n\n`))
+        })
+
+        controller.close()
+      } catch (error) {
+        // 中途出错时输出 Gemini 格式的错误事件
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(toGeminiError(error))}\n\n`))
+        controller.close()
+      }
+    },
+    cancel(reason) {
+      return sourceReader.cancel(reason)
+    }
+  })
+
+  return new Response(output, { headers: SSE_HEADERS })
+}
+
+/**
+ * 将 OpenAI usage 转换为 Gemini usageMetadata
+ *
+ * OpenAI completion_tokens 包含推理 token，Gemini 则将其单独计入 thoughtsTokenCount
+ *
+ * @param usage - OpenAI 格式 usage
+ */
+function toGeminiUsage(usage: Record<string, unknown> | undefined) {
+  const details = usage?.completion_tokens_details as Record<string, number> | undefined
+  const promptTokens = Number(usage?.prompt_tokens ?? 0)
+  const completionTokens = Number(usage?.completion_tokens ?? 0)
+  const thoughtsTokens = Number(details?.reasoning_tokens ?? 0)
+
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: Math.max(0, completionTokens - thoughtsTokens),
+    ...(thoughtsTokens ? { thoughtsTokenCount: thoughtsTokens } : {}),
+    totalTokenCount: Number(usage?.total_tokens ?? promptTokens + completionTokens)
+  }
+}
+
+/**
+ * 将联网搜索结果与引用注解转换为 Gemini groundingMetadata
+ *
+ * 搜索结果对应 groundingChunks；每个引用对应一条 groundingSupport，
+ * 其片段为引用标记前的句子（位置按 UTF-8 字节计算），同一片段的多个引用合并
+ *
+ * @param content - 完整正文
+ * @param searchResults - 搜索结果
+ * @param annotations - 引用注解
+ * @returns groundingMetadata，没有搜索结果时返回 undefined
+ */
+function toGeminiGroundingMetadata(content: string, searchResults: OpenAISearchResult[], annotations: OpenAIUrlCitation[]) {
+  if (!searchResults.length) return undefined
+
+  const segments = resolveCitedSegments(content, annotations)
+  const supports: Array<{ segment: { startIndex: number, endIndex: number, text: string }, groundingChunkIndices: number[] }> = []
+  for (const [index, annotation] of annotations.entries()) {
+    const chunkIndex = searchResults.findIndex(result => result.url === annotation.url_citation.url)
+    const segment = segments[index]!
+    if (chunkIndex === -1 || !segment.text) continue
+
+    const startIndex = Buffer.byteLength(content.slice(0, segment.start), 'utf8')
+    const existing = supports.find(support => support.segment.startIndex === startIndex)
+    if (existing) {
+      if (!existing.groundingChunkIndices.includes(chunkIndex)) existing.groundingChunkIndices.push(chunkIndex)
+      continue
+    }
+    supports.push({
+      segment: {
+        startIndex,
+        endIndex: startIndex + Buffer.byteLength(segment.text, 'utf8'),
+        text: segment.text
+      },
+      groundingChunkIndices: [chunkIndex]
+    })
+  }
+
+  return {
+    groundingChunks: searchResults.map(result => ({ web: { uri: result.url, title: result.title } })),
+    groundingSupports: supports
+  }
+}
+
+/**
+ * 将 OpenAI finish_reason 映射为 Gemini finishReason
+ *
+ * Gemini 的函数调用同样以 STOP 结束
+ *
+ * @param finishReason - OpenAI 停止原因
+ * @returns Gemini 停止原因
+ */
+function toGeminiFinishReason(finishReason: string | null | undefined) {
+  switch (finishReason) {
+    case 'length':
+      return 'MAX_TOKENS'
+    case 'content_filter':
+      return 'SAFETY'
+    default:
+      return 'STOP'
+  }
+}
+
+/**
+ * 将 OpenAI finish_reason 映射为 Anthropic stop_reason
+ *
+ * 命中停止序列时（stop_reason 为匹配到的序列）返回 stop_sequence
+ *
+ * @param finishReason - OpenAI 停止原因
+ * @param stopSequence - 命中的停止序列
+ * @returns Anthropic 停止原因
+ */
+function toAnthropicStopReason(finishReason: string | null | undefined, stopSequence?: string) {
+  if (stopSequence !== undefined) {
+    return 'stop_sequence'
+  }
+  switch (finishReason) {
+    case 'length':
+      return 'max_tokens'
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use'
+    case 'content_filter':
+      return 'refusal'
+    default:
+      return 'end_turn'
+  }
+}
+
+/**
+ * 将联网搜索结果转换为 Anthropic server_tool_use 与 web_search_tool_result 内容块
+ *
+ * @param toolUseId - server_tool_use 块 ID
+ * @param searchResults - 搜索结果
+ */
+function toAnthropicSearchBlocks(toolUseId: string, searchResults: OpenAISearchResult[]) {
+  return [
+    { type: 'server_tool_use', id: toolUseId, name: 'web_search', input: {} },
+    {
+      type: 'web_search_tool_result',
+      tool_use_id: toolUseId,
+      content: searchResults.map(result => ({
+        type: 'web_search_result',
+        url: result.url,
+        title: result.title,
+        encrypted_content: '',
+        page_age: null
+      }))
+    }
+  ]
+}
+
+/**
+ * 将引用注解转换为 Anthropic web_search_result_location 引用
+ *
+ * @param annotation - 引用注解
+ * @param citedText - 引用所支撑的文本片段（最多 150 字符）
+ */
+function toAnthropicCitation(annotation: OpenAIUrlCitation, citedText: string) {
+  return {
+    type: 'web_search_result_location',
+    url: annotation.url_citation.url,
+    title: annotation.url_citation.title,
+    encrypted_index: '',
+    cited_text: citedText.slice(0, 150)
+  }
+}
+
+/**
+ * 将 OpenAI SSE 流实时转换为 Anthropic Messages SSE 流
+ *
+ * 用于 Anthropic API 兼容层的流式响应。
+ * 输出事件序列遵循 Anthropic 规范：
+ * message_start -> content_block_start -> content_block_delta* -> content_block_stop
+ * -> message_delta -> message_stop，期间穿插 ping 心跳。
+ *
+ * 格式转换规则：
+ * - OpenAI delta.reasoning_content -> thinking 内容块的 thinking_delta（需开启 thinking）
+ * - OpenAI delta.content -> text 内容块的 text_delta
+ * - OpenAI delta.tool_calls -> tool_use 内容块的 input_json_delta
+ * - delta.search_results -> server_tool_use 与 web_search_tool_result 内容块
+ * - OpenAI delta.annotations -> 当前 text 内容块的 citations_delta
+ * - OpenAI finish_reason -> message_delta.delta.stop_reason
+ * - OpenAI stop_reason（命中的停止序列） -> message_delta.delta.stop_sequence
+ * - OpenAI usage -> message_delta.usage
+ * - handler 的 keep-alive 注释 -> ping 事件
+ *
+ * @param sseResponse - OpenAI 格式的 SSE 流响应
+ * @param fallbackModel - 当流中没有 model 字段时使用的默认值
+ * @param options - 转换选项
+ * @returns Response 包含 Anthropic 格式 SSE 的新响应
+ *
+ * @throws 当输入流 body 为空时抛出 502 错误
+ */
+export function openAISSEToAnthropicSSE(sseResponse: Response, fallbackModel: string, options: AnthropicResponseOptions = {}): Response {
+  if (!sseResponse.body) {
+    throw createError({
+      status: 502,
+      message: 'Provider returned empty stream body'
+    })
+  }
+
+  const sourceReader = sseResponse.body.getReader()
+  const encoder = new TextEncoder()
+
+  // 创建转换后的输出流
+  const output = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // 消息状态
+      let started = false
+      let finishReason: string | null = null
+      let stopSequence: string | undefined
+      let usage: Record<string, number> | undefined
+
+      // 当前打开的内容块索引（-1 表示没有打开的块）
+      let blockIndex = -1
+      let blockOpen = false
+      let blockType: 'thinking' | 'text' | 'tool_use' | 'search' | null = null
+
+      // 工具调用累积（OpenAI index -> 工具调用）
+      const toolCalls: OpenAIToolCall[] = []
+      // 当前 tool_use 块对应的 OpenAI 工具调用 index
+      let openToolIndex = -1
+
+      // 累积的正文与引用注解（用于计算 cited_text）
+      let content = ''
+      const annotations: OpenAIUrlCitation[] = []
+      // 已输出的搜索结果批次数
+      let searchCount = 0
+
+      /**
+       * 输出 Anthropic 格式的 SSE 事件
+       */
+      const sendEvent = (type: string, data: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`))
+      }
+
+      /**
+       * 发送 message_start（只发送一次）
+       */
+      const ensureStarted = (chunk?: Record<string, unknown>) => {
+        if (started) return
+        started = true
+
+        const id = typeof chunk?.id === 'string' && chunk.id ? chunk.id : `msg_${Date.now()}`
+        const model = typeof chunk?.model === 'string' && chunk.model ? chunk.model : fallbackModel
+
+        sendEvent('message_start', {
+          message: {
+            id,
+            type: 'message',
+            role: 'assistant',
+            model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: {
+              input_tokens: 0,
+              output_tokens: 0
+            }
+          }
+        })
+        sendEvent('ping', {})
+      }
+
+      /**
+       * 关闭当前打开的内容块
+       */
+      const closeBlock = () => {
+        if (!blockOpen) return
+        sendEvent('content_block_stop', { index: blockIndex })
+        blockOpen = false
+        blockType = null
+        openToolIndex = -1
+      }
+
+      /**
+       * 打开新的内容块
+       */
+      const openBlock = (type: 'thinking' | 'text' | 'tool_use' | 'search', contentBlock: Record<string, unknown>) => {
+        closeBlock()
+        blockIndex += 1
+        blockOpen = true
+        blockType = type
+        sendEvent('content_block_start', {
+          index: blockIndex,
+          content_block: contentBlock
+        })
+      }
+
+      /**
+       * 追加推理增量（必要时打开新的 thinking 内容块）
+       */
+      const sendThinking = (thinking: string) => {
+        if (blockType !== 'thinking') {
+          openBlock('thinking', { type: 'thinking', thinking: '', signature: '' })
+        }
+        sendEvent('content_block_delta', {
+          index: blockIndex,
+          delta: { type: 'thinking_delta', thinking }
+        })
+      }
+
+      /**
+       * 追加文本增量（必要时打开新的 text 内容块）
+       */
+      const sendText = (text: string) => {
+        if (blockType !== 'text') {
+          openBlock('text', { type: 'text', text: '' })
+        }
+        sendEvent('content_block_delta', {
+          index: blockIndex,
+          delta: { type: 'text_delta', text }
+        })
+        content += text
+      }
+
+      /**
+       * 输出搜索结果（server_tool_use 与 web_search_tool_result 各为一个完整的内容块）
+       */
+      const sendSearchResults = (searchResults: OpenAISearchResult[], messageId: string) => {
+        if (!searchResults.length) return
+        searchCount += 1
+        for (const block of toAnthropicSearchBlocks(`srvtoolu_${messageId}_${searchCount}`, searchResults)) {
+          openBlock('search', block)
+          closeBlock()
+        }
+      }
+
+      /**
+       * 为当前 text 内容块追加引用
+       */
+      const sendCitations = (added: OpenAIUrlCitation[]) => {
+        if (!added.length || blockType !== 'text') return
+        annotations.push(...added)
+        const segments = resolveCitedSegments(content, annotations).slice(-added.length)
+        for (const [index, annotation] of added.entries()) {
+          sendEvent('content_block_delta', {
+            index: blockIndex,
+            delta: { type: 'citations_delta', citation: toAnthropicCitation(annotation, segments[index]!.text) }
+          })
+        }
+      }
+
+      /**
+       * 处理工具调用增量（新调用打开 tool_use 块，参数片段输出为 input_json_delta）
+       */
+      const sendToolCalls = (deltas: unknown) => {
+        if (!Array.isArray(deltas)) return
+
+        for (const item of deltas) {
+          const before = toolCalls[item?.index]?.function.arguments.length ?? 0
+          const [createdIndex] = mergeToolCallDeltas(toolCalls, [item])
+          const index = createdIndex ?? item?.index
+          const toolCall = toolCalls[index]
+          if (!toolCall) continue
+
+          if (createdIndex !== undefined) {
+            openBlock('tool_use', {
+              type: 'tool_use',
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: {}
+            })
+            openToolIndex = createdIndex
+          }
+
+          const fragment = toolCall.function.arguments.slice(createdIndex !== undefined ? 0 : before)
+          if (fragment && index === openToolIndex) {
+            sendEvent('content_block_delta', {
+              index: blockIndex,
+              delta: { type: 'input_json_delta', partial_json: fragment }
+            })
+          }
+        }
+      }
+
+      try {
+        await readOpenAISSE(sourceReader, (event) => {
+          // 心跳注释转换为 ping
+          if (event.type === 'comment') {
+            if (started) sendEvent('ping', {})
+            return
+          }
+          if (event.type !== 'chunk') return
+
+          const chunk = event.chunk
+          ensureStarted(chunk)
+
+          if (chunk.usage && typeof chunk.usage === 'object') {
+            usage = chunk.usage as Record<string, number>
+          }
+
+          const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
+          const delta = choice?.delta && typeof choice.delta === 'object' ? choice.delta : {}
+
+          if (options.thinking && typeof delta.reasoning_content === 'string' && delta.reasoning_content) {
+            sendThinking(delta.reasoning_content)
+          }
+          sendSearchResults(toSearchResults(delta.search_results), typeof chunk.id === 'string' ? chunk.id : String(Date.now()))
+          if (typeof delta.content === 'string' && delta.content) {
+            sendText(delta.content)
+          }
+          sendCitations(toUrlCitations(delta.annotations))
+          sendToolCalls(delta.tool_calls)
+
+          if (choice?.finish_reason != null) {
+            finishReason = String(choice.finish_reason)
+          }
+          if (typeof choice?.stop_reason === 'string') {
+            stopSequence = choice.stop_reason
+          }
+        })
+
+        // 结束消息
+        ensureStarted()
+        closeBlock()
+        sendEvent('message_delta', {
+          delta: {
+            stop_reason: toAnthropicStopReason(finishReason, stopSequence),
+            stop_sequence: stopSequence ?? null
+          },
+          usage: {
+            input_tokens: usage?.prompt_tokens ?? 0,
+            output_tokens: usage?.completion_tokens ?? 0
+          }
+        })
+        sendEvent('message_stop', {})
+        controller.close()
+      } catch (error) {
+        // 中途出错时输出 Anthropic 格式的 error 事件
+        sendEvent('error', toAnthropicError(error))
+        controller.close()
+      }
+    },
+    cancel(reason) {
+      return sourceReader.cancel(reason)
+    }
+  })
+
+  return new Response(output, { headers: SSE_HEADERS })
+}
+
+/**
+ * 将 OpenAI Completion 转换为 Gemini generateContent 响应格式
+ *
+ * 用于 Gemini API 兼容层的非流式响应。
+ *
+ * @param openai - OpenAI 格式的完整响应
+ * @param options - 转换选项
+ * @returns Gemini generateContent 响应格式
+ */
+export function openAIToGeminiResponse(openai: OpenAICompletion, options: GeminiResponseOptions = {}) {
+  const choice = openai.choices?.[0]
+  const message = choice?.message
+
+  // 推理、文本与函数调用分别作为独立 part
+  const parts: Array<Record<string, unknown>> = []
+  if (message?.reasoning_content && options.includeThoughts) {
+    parts.push({ text: message.reasoning_content, thought: true })
+  }
+  if (message?.content || !message?.tool_calls?.length) {
+    parts.push({ text: message?.content ?? '' })
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    parts.push({
+      functionCall: {
+        name: toolCall.function.name,
+        args: parseToolArguments(toolCall.function.arguments)
+      }
+    })
+  }
+
+  const groundingMetadata = toGeminiGroundingMetadata(message?.content ?? '', message?.search_results ?? [], message?.annotations ?? [])
+
+  return {
+    candidates: [
       {
-        type: 'text',
-        text: message?.content ?? ''
+        content: {
+          role: 'model',
+          parts
+        },
+        finishReason: toGeminiFinishReason(choice?.finish_reason),
+        ...(groundingMetadata ? { groundingMetadata } : {}),
+        index: 0
       }
     ],
-    stop_reason: choice?.finish_reason ?? 'end_turn',
-    stop_sequence: null,
+    usageMetadata: toGeminiUsage(openai.usage),
+    modelVersion: openai.model
+  }
+}
+
+/**
+ * 将 OpenAI Completion 转换为 Anthropic messages 响应格式
+ *
+ * 用于 Anthropic API 兼容层的响应。
+ *
+ * @param openai - OpenAI 格式的完整响应
+ * @param options - 转换选项
+ * @returns Anthropic messages 响应格式
+ */
+export function openAIToAnthropicResponse(openai: OpenAICompletion, options: AnthropicResponseOptions = {}) {
+  const message = openai.choices?.[0]?.message
+  const choice = openai.choices?.[0]
+  const usage = openai.usage as Record<string, number> | undefined
+
+  // 依次为 thinking 块、搜索结果块、文本块（附带引用）、tool_use 块
+  const content: Array<Record<string, unknown>> = []
+  if (message?.reasoning_content && options.thinking) {
+    content.push({
+      type: 'thinking',
+      thinking: message.reasoning_content,
+      signature: ''
+    })
+  }
+  if (message?.search_results?.length) {
+    content.push(...toAnthropicSearchBlocks(`srvtoolu_${openai.id}`, message.search_results))
+  }
+  if (message?.content || !message?.tool_calls?.length) {
+    const text = message?.content ?? ''
+    const annotations = message?.annotations ?? []
+    const segments = resolveCitedSegments(text, annotations)
+    content.push({
+      type: 'text',
+      text,
+      ...(annotations.length
+        ? { citations: annotations.map((annotation, index) => toAnthropicCitation(annotation, segments[index]!.text)) }
+        : {})
+    })
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    content.push({
+      type: 'tool_use',
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: parseToolArguments(toolCall.function.arguments)
+    })
+  }
+
+  return {
+    id: openai.id,
+    type: 'message',
+    role: 'assistant',
+    model: openai.model,
+    content,
+    stop_reason: toAnthropicStopReason(choice?.finish_reason, choice?.stop_reason),
+    stop_sequence: choice?.stop_reason ?? null,
     usage: {
       input_tokens: usage?.prompt_tokens ?? 0,
       output_tokens: usage?.completion_tokens ?? 0
     }
   }
 }
+
+/**
+ * 将 OpenAI usage 转换为 Responses API usage
+ *
+ * @param usage - OpenAI 格式 usage
+ */
+function toResponsesUsage(usage: Record<string, unknown> | undefined) {
+  const details = usage?.completion_tokens_details as Record<string, number> | undefined
+  const inputTokens = Number(usage?.prompt_tokens ?? 0)
+  const outputTokens = Number(usage?.completion_tokens ?? 0)
+
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: Number(details?.reasoning_tokens ?? 0) },
+    total_tokens: Number(usage?.total_tokens ?? inputTokens + outputTokens)
+  }
+}
+
+/**
+ * 构造 Responses API 的 response 对象
+ *
+ * 流式事件（response.created / response.completed）与非流式响应共用
+ *
+ * @param fields - response 对象的可变字段
+ */
+function buildResponsesObject(fields: {
+  id: string
+  created: number
+  model: string
+  finishReason: string | null
+  output: Array<Record<string, unknown>>
+  usage?: Record<string, unknown>
+  inProgress?: boolean
+}) {
+  // finish_reason=length 对应 incomplete 状态
+  const incomplete = fields.finishReason === 'length'
+  let status = 'completed'
+  if (fields.inProgress) {
+    status = 'in_progress'
+  } else if (incomplete) {
+    status = 'incomplete'
+  }
+
+  return {
+    id: fields.id,
+    object: 'response',
+    created_at: fields.created,
+    status,
+    error: null,
+    incomplete_details: !fields.inProgress && incomplete ? { reason: 'max_output_tokens' } : null,
+    model: fields.model,
+    output: fields.output,
+    parallel_tool_calls: true,
+    usage: fields.inProgress ? null : toResponsesUsage(fields.usage)
+  }
+}
+
+/**
+ * 将引用注解转换为 Responses API output_text 注解
+ *
+ * @param annotation - 引用注解
+ * @param offset - 所在 message 输出项之前的正文长度（注解位置相对于输出项文本）
+ */
+function toResponsesAnnotation(annotation: OpenAIUrlCitation, offset = 0) {
+  return {
+    type: 'url_citation',
+    start_index: annotation.url_citation.start_index - offset,
+    end_index: annotation.url_citation.end_index - offset,
+    url: annotation.url_citation.url,
+    title: annotation.url_citation.title
+  }
+}
+
+/**
+ * 将 OpenAI Completion 转换为 Responses API 响应格式
+ *
+ * 用于 Responses API 兼容层的非流式响应。
+ * 推理内容映射为 reasoning 输出项，文本映射为 message 输出项（引用注解映射为 output_text 注解），
+ * 工具调用映射为 function_call 输出项。
+ *
+ * @param openai - OpenAI 格式的完整响应
+ * @returns Responses API 响应格式
+ */
+export function openAIToResponsesResponse(openai: OpenAICompletion) {
+  const choice = openai.choices?.[0]
+  const message = choice?.message
+  const output: Array<Record<string, unknown>> = []
+
+  if (message?.reasoning_content) {
+    output.push({
+      type: 'reasoning',
+      id: `rs_${openai.id}`,
+      summary: [{ type: 'summary_text', text: message.reasoning_content }]
+    })
+  }
+
+  if (message?.content || !message?.tool_calls?.length) {
+    output.push({
+      type: 'message',
+      id: `msg_${openai.id}`,
+      status: 'completed',
+      role: 'assistant',
+      content: [{
+        type: 'output_text',
+        text: message?.content ?? '',
+        annotations: (message?.annotations ?? []).map(annotation => toResponsesAnnotation(annotation))
+      }]
+    })
+  }
+
+  for (const toolCall of message?.tool_calls ?? []) {
+    output.push({
+      type: 'function_call',
+      id: `fc_${toolCall.id}`,
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: 'completed'
+    })
+  }
+
+  return {
+    ...buildResponsesObject({
+      id: `resp_${openai.id}`,
+      created: openai.created,
+      model: openai.model,
+      finishReason: choice?.finish_reason ?? null,
+      output,
+      usage: openai.usage
+    }),
+    // SDK 便捷字段：所有 output_text 拼接
+    output_text: message?.content ?? ''
+  }
+}
+
+/**
+ * 将 OpenAI SSE 流实时转换为 Responses API SSE 流
+ *
+ * 用于 Responses API 兼容层的流式响应。
+ * 输出带类型的事件序列：
+ * response.created -> response.in_progress
+ * -> response.output_item.added / *.delta / *.done / response.output_item.done（每个输出项）
+ * -> response.completed
+ *
+ * 输出项映射规则：
+ * - OpenAI delta.reasoning_content -> reasoning 项（response.reasoning_summary_text.delta）
+ * - OpenAI delta.content -> message 项（response.output_text.delta）
+ * - OpenAI delta.annotations -> message 项的注解（response.output_text.annotation.added）
+ * - OpenAI delta.tool_calls -> function_call 项（response.function_call_arguments.delta）
+ *
+ * @param sseResponse - OpenAI 格式的 SSE 流响应
+ * @param fallbackModel - 当流中没有 model 字段时使用的默认值
+ * @returns Response 包含 Responses API 格式 SSE 的新响应
+ *
+ * @throws 当输入流 body 为空时抛出 502 错误
+ */
+export function openAISSEToResponsesSSE(sseResponse: Response, fallbackModel: string): Response {
+  if (!sseResponse.body) {
+    throw createError({
+      status: 502,
+      message: 'Provider returned empty stream body'
+    })
+  }
+
+  const sourceReader = sseResponse.body.getReader()
+  const encoder = new TextEncoder()
+
+  // 创建转换后的输出流
+  const output = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // 响应元数据
+      let started = false
+      let responseId = ''
+      let model = fallbackModel
+      let created = Math.floor(Date.now() / 1000)
+      let finishReason: string | null = null
+      let usage: Record<string, unknown> | undefined
+      let sequenceNumber = 0
+
+      // 已完成的输出项
+      const outputItems: Array<Record<string, unknown>> = []
+
+      // 当前打开的输出项（message 项记录其之前的正文长度与注解）
+      let current: {
+        kind: 'reasoning' | 'message' | 'function_call'
+        item: Record<string, unknown>
+        text: string
+        toolIndex?: number
+        offset: number
+        annotations: Array<Record<string, unknown>>
+      } | null = null
+
+      // 已输出的正文总长度（注解位置基于完整正文）
+      let contentLength = 0
+
+      // 工具调用累积（OpenAI index -> 工具调用）
+      const toolCalls: OpenAIToolCall[] = []
+
+      /**
+       * 输出 Responses API 格式的 SSE 事件
+       */
+      const sendEvent = (type: string, data: Record<string, unknown>) => {
+        const payload = { type, sequence_number: sequenceNumber++, ...data }
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`))
+      }
+
+      /**
+       * 发送 response.created / response.in_progress（只发送一次）
+       */
+      const ensureStarted = (chunk?: Record<string, unknown>) => {
+        if (started) return
+        started = true
+
+        if (typeof chunk?.id === 'string' && chunk.id) responseId = chunk.id
+        if (typeof chunk?.model === 'string' && chunk.model) model = chunk.model
+        if (typeof chunk?.created === 'number') created = chunk.created
+        responseId = `resp_${responseId || created}`
+
+        const response = buildResponsesObject({ id: responseId, created, model, finishReason: null, output: [], inProgress: true })
+        sendEvent('response.created', { response })
+        sendEvent('response.in_progress', { response })
+      }
+
+      /**
+       * 关闭当前输出项，输出对应的 done 事件
+       */
+      const closeItem = () => {
+        if (!current) return
+        const outputIndex = outputItems.length
+        const itemId = current.item.id
+
+        if (current.kind === 'reasoning') {
+          const part = { type: 'summary_text', text: current.text }
+          sendEvent('response.reasoning_summary_text.done', { item_id: itemId, output_index: outputIndex, summary_index: 0, text: current.text })
+          sendEvent('response.reasoning_summary_part.done', { item_id: itemId, output_index: outputIndex, summary_index: 0, part })
+          current.item.summary = [part]
+        } else if (current.kind === 'message') {
+          const part = { type: 'output_text', text: current.text, annotations: current.annotations }
+          sendEvent('response.output_text.done', { item_id: itemId, output_index: outputIndex, content_index: 0, text: current.text })
+          sendEvent('response.content_part.done', { item_id: itemId, output_index: outputIndex, content_index: 0, part })
+          current.item.content = [part]
+          current.item.status = 'completed'
+        } else {
+          sendEvent('response.function_call_arguments.done', { item_id: itemId, output_index: outputIndex, arguments: current.text })
+          current.item.arguments = current.text
+          current.item.status = 'completed'
+        }
+
+        sendEvent('response.output_item.done', { output_index: outputIndex, item: current.item })
+        outputItems.push(current.item)
+        current = null
+      }
+
+      /**
+       * 打开新的输出项，输出 added 事件
+       */
+      const openItem = (kind: 'reasoning' | 'message' | 'function_call', item: Record<string, unknown>, toolIndex?: number) => {
+        closeItem()
+        current = { kind, item, text: '', toolIndex, offset: contentLength, annotations: [] }
+        const outputIndex = outputItems.length
+
+        sendEvent('response.output_item.added', { output_index: outputIndex, item })
+        if (kind === 'reasoning') {
+          sendEvent('response.reasoning_summary_part.added', { item_id: item.id, output_index: outputIndex, summary_index: 0, part: { type: 'summary_text', text: '' } })
+        } else if (kind === 'message') {
+          sendEvent('response.content_part.added', { item_id: item.id, output_index: outputIndex, content_index: 0, part: { type: 'output_text', text: '', annotations: [] } })
+        }
+      }
+
+      /**
+       * 追加推理或文本增量（必要时打开新的输出项）
+       */
+      const sendText = (kind: 'reasoning' | 'message', text: string) => {
+        if (current?.kind !== kind) {
+          closeItem()
+          const id = `${kind === 'reasoning' ? 'rs' : 'msg'}_${responseId}_${outputItems.length}`
+          openItem(kind, kind === 'reasoning'
+            ? { type: 'reasoning', id, summary: [] }
+            : { type: 'message', id, status: 'in_progress', role: 'assistant', content: [] })
+        }
+
+        current!.text += text
+        const outputIndex = outputItems.length
+        if (kind === 'reasoning') {
+          sendEvent('response.reasoning_summary_text.delta', { item_id: current!.item.id, output_index: outputIndex, summary_index: 0, delta: text })
+        } else {
+          contentLength += text.length
+          sendEvent('response.output_text.delta', { item_id: current!.item.id, output_index: outputIndex, content_index: 0, delta: text })
+        }
+      }
+
+      /**
+       * 为当前 message 项追加注解
+       */
+      const sendAnnotations = (added: OpenAIUrlCitation[]) => {
+        if (current?.kind !== 'message') return
+        for (const item of added) {
+          const annotation = toResponsesAnnotation(item, current.offset)
+          sendEvent('response.output_text.annotation.added', {
+            item_id: current.item.id,
+            output_index: outputItems.length,
+            content_index: 0,
+            annotation_index: current.annotations.length,
+            annotation
+          })
+          current.annotations.push(annotation)
+        }
+      }
+
+      /**
+       * 处理工具调用增量（新调用打开 function_call 项）
+       */
+      const sendToolCalls = (deltas: unknown) => {
+        if (!Array.isArray(deltas)) return
+
+        for (const item of deltas) {
+          const before = toolCalls[item?.index]?.function.arguments.length ?? 0
+          const [createdIndex] = mergeToolCallDeltas(toolCalls, [item])
+          const index = createdIndex ?? item?.index
+          const toolCall = toolCalls[index]
+          if (!toolCall) continue
+
+          if (createdIndex !== undefined) {
+            openItem('function_call', {
+              type: 'function_call',
+              id: `fc_${toolCall.id}`,
+              call_id: toolCall.id,
+              name: toolCall.function.name,
+              arguments: '',
+              status: 'in_progress'
+            }, createdIndex)
+          }
+
+          const fragment = toolCall.function.arguments.slice(createdIndex !== undefined ? 0 : before)
+          if (fragment && current?.kind === 'function_call' && current.toolIndex === index) {
+            current.text += fragment
+            sendEvent('response.function_call_arguments.delta', { item_id: current.item.id, output_index: outputItems.length, delta: fragment })
+          }
+        }
+      }
+
+      try {
+        await readOpenAISSE(sourceReader, (event) => {
+          if (event.type !== 'chunk') return
+
+          const chunk = event.chunk
+          ensureStarted(chunk)
+
+          if (chunk.usage && typeof chunk.usage === 'object') {
+            usage = chunk.usage as Record<string, unknown>
+          }
+
+          const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
+          const delta = choice?.delta && typeof choice.delta === 'object' ? choice.delta : {}
+
+          if (typeof delta.reasoning_content === 'string' && delta.reasoning_content) {
+            sendText('reasoning', delta.reasoning_content)
+          }
+          if (typeof delta.content === 'string' && delta.content) {
+            sendText('message', delta.content)
+          }
+          sendAnnotations(toUrlCitations(delta.annotations))
+          sendToolCalls(delta.tool_calls)
+
+          if (choice?.finish_reason != null) {
+            finishReason = String(choice.finish_reason)
+          }
+        })
+
+        // 结束响应
+        ensureStarted()
+        closeItem()
+        const response = buildResponsesObject({ id: responseId, created, model, finishReason, output: outputItems, usage })
+        sendEvent(response.status === 'incomplete' ? 'response.incomplete' : 'response.completed', { response })
+        controller.close()
+      } catch (error) {
+        // 中途出错时输出 Responses 格式的 error 事件
+        const { error: body } = toOpenAIError(error)
+        sendEvent('error', { code: body.code ?? body.type, message: body.message, param: body.param })
+        controller.close()
+      }
+    },
+    cancel(reason) {
+      return sourceReader.cancel(reason)
+    }
+  })
+
+  return new Response(output, { headers: SSE_HEADERS })
+}
+
+/**
+ * 文本补全任务
+ *
+ * 旧版 v1/completions 的每个 choice（prompt × n）对应一次独立的分发
+ */
+export type TextCompletionJob = {
+  /** echo=true 时输出在补全文本前的原始 prompt */
+  echo: string
+  /** 延迟执行的分发函数（流式任务按顺序依次执行，避免同时占用多个账号） */
+  dispatch: () => Promise<Response | OpenAICompletion>
+}
+
+/**
+ * 累加多个 OpenAI usage
+ */
+function sumUsage(target: Record<string, number>, usage: Record<string, unknown> | undefined) {
+  for (const key of ['prompt_tokens', 'completion_tokens', 'total_tokens']) {
+    target[key] = (target[key] ?? 0) + Number(usage?.[key] ?? 0)
+  }
+  return target
+}
+
+/**
+ * 将多个 OpenAI Completion 合并为旧版文本补全响应格式
+ *
+ * 用于 v1/completions 兼容层的非流式响应，每个 Completion 对应一个 choice。
+ *
+ * @param completions - 按 choice 顺序排列的 OpenAI 完整响应
+ * @param options - echo 前缀（与 completions 一一对应）
+ * @returns text_completion 响应格式
+ */
+export function openAIToTextCompletion(completions: OpenAICompletion[], options: { echoes: string[] }) {
+  const first = completions[0]
+  const usage: Record<string, number> = {}
+
+  const choices = completions.map((completion, index) => {
+    const choice = completion.choices?.[0]
+    sumUsage(usage, completion.usage)
+
+    return {
+      text: (options.echoes[index] ?? '') + (choice?.message.content ?? ''),
+      index,
+      logprobs: null,
+      finish_reason: choice?.finish_reason ?? 'stop'
+    }
+  })
+
+  return {
+    id: `cmpl-${first?.id ?? Date.now()}`,
+    object: 'text_completion',
+    created: first?.created ?? Math.floor(Date.now() / 1000),
+    model: first?.model ?? '',
+    choices,
+    usage
+  }
+}
+
+/**
+ * 依次执行文本补全任务并输出旧版文本补全 SSE 流
+ *
+ * 用于 v1/completions 兼容层的流式响应。
+ * 多个任务按顺序串行执行，各自的增量以不同的 choice index 输出，
+ * usage 累加后随最后一个 chunk 输出。
+ *
+ * 首个任务由调用方在返回响应前执行，使开始输出前的错误（模型不支持、无可用账号等）
+ * 仍以对应的 HTTP 状态码返回；客户端断开时取消当前任务的上游流并不再执行剩余任务。
+ *
+ * @param jobs - 文本补全任务列表（按 choice 顺序）
+ * @param fallbackModel - 当流中没有 model 字段时使用的默认值
+ * @param firstResult - 首个任务的分发结果
+ * @returns Response 包含 text_completion chunk 的 SSE 响应
+ */
+export function openAISSEToTextCompletionSSE(
+  jobs: TextCompletionJob[],
+  fallbackModel: string,
+  firstResult: Response | OpenAICompletion
+): Response {
+  const encoder = new TextEncoder()
+  const created = Math.floor(Date.now() / 1000)
+  const id = `cmpl-${Date.now()}`
+  // 客户端是否已断开
+  let cancelled = false
+  // 正在读取的任务上游流
+  let activeReader: ReadableStreamDefaultReader<Uint8Array> | null = null
+
+  const output = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const usage: Record<string, number> = {}
+      let model = fallbackModel
+
+      /**
+       * 输出 text_completion chunk
+       */
+      const sendChunk = (index: number, text: string, finishReason: string | null, extra?: Record<string, unknown>) => {
+        const payload = {
+          id,
+          object: 'text_completion',
+          created,
+          model,
+          choices: [{ text, index, logprobs: null, finish_reason: finishReason }],
+          ...extra
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+      }
+
+      try {
+        for (const [index, job] of jobs.entries()) {
+          if (cancelled) return
+          const result = index === 0 ? firstResult : await job.dispatch()
+          if (cancelled) {
+            if (result instanceof Response) await result.body?.cancel()
+            return
+          }
+          if (!(result instanceof Response) || !result.body) {
+            throw createError({
+              status: 500,
+              message: 'Expected stream response from provider'
+            })
+          }
+
+          if (job.echo) {
+            sendChunk(index, job.echo, null)
+          }
+
+          let finishReason = 'stop'
+          activeReader = result.body.getReader()
+          await readOpenAISSE(activeReader, (event) => {
+            if (event.type === 'comment') {
+              controller.enqueue(encoder.encode(': keep-alive\n\n'))
+              return
+            }
+            if (event.type !== 'chunk') return
+
+            const chunk = event.chunk
+            if (typeof chunk.model === 'string' && chunk.model) {
+              model = chunk.model
+            }
+            if (chunk.usage && typeof chunk.usage === 'object') {
+              sumUsage(usage, chunk.usage as Record<string, unknown>)
+            }
+
+            const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : null
+            if (choice?.finish_reason != null) {
+              finishReason = String(choice.finish_reason)
+            }
+            const text = typeof choice?.delta?.content === 'string' ? choice.delta.content : ''
+            if (text) {
+              sendChunk(index, text, null)
+            }
+          })
+
+          activeReader = null
+          if (cancelled) return
+
+          // 最后一个任务的结束 chunk 携带累计 usage
+          sendChunk(index, '', finishReason, index === jobs.length - 1 ? { usage } : undefined)
+        }
+
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+        controller.close()
+      } catch (error) {
+        if (cancelled) return
+        // 中途出错时输出 OpenAI 格式的错误事件
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(toOpenAIError(error))}\n\n`))
+        controller.close()
+      }
+    },
+    cancel(reason) {
+      cancelled = true
+      return activeReader?.cancel(reason)
+    }
+  })
+
+  return new Response(output, { headers: SSE_HEADERS })
+}
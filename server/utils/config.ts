@@ -10,6 +10,10 @@
  * 配置文件结构：
  * - dashboard: 仪表板配置（启用状态、密码）
  * - projects: 各项目的自定义配置
+ * - openai: OpenAI 兼容层配置
+ * - structured_output: 结构化输出配置
+ * - health_check: 账号健康检查配置
+ * - selector: 账号选择策略配置
  * - keys: API 密钥列表
  */
 
@@ -30,6 +34,27 @@ type Config = {
   projects?: {
     [key: string]: object // 项目名称到配置对象的映射
   }
+  // OpenAI 兼容层配置（可选）
+  openai?: {
+    think_tags?: boolean // 是否将推理内容以 <think> 标签写入 content
+  }
+  // 结构化输出配置（可选）
+  structured_output?: {
+    max_attempts?: number // 输出未通过 Schema 校验时的最大尝试次数（包含首次请求）
+  }
+  // 账号健康检查配置（可选）
+  health_check?: {
+    enabled?: boolean // 是否启用后台定期检查（默认启用）
+    interval_seconds?: number // 检查间隔（秒）
+    timeout_ms?: number // 单个账号的检查超时（毫秒）
+    request_interval_ms?: number // 相邻两个账号检查之间的间隔（毫秒）
+  }
+  // 账号选择策略配置（可选）
+  selector?: {
+    strategy?: string // 默认选择策略
+    providers?: Record<string, string> // 提供商 -> 选择策略
+    models?: Record<string, string> // 模型 -> 选择策略（优先于提供商）
+  }
   keys: [string] // API 密钥列表
 
 }
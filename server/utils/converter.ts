@@ -8,19 +8,29 @@
  * - OpenAI Chat Completions API (v1/chat/completions)
  * - Google Gemini API (v1beta/models/{model}:generateContent)
  * - Anthropic Messages API (v1/messages)
+ * - OpenAI Responses API (v1/responses)
+ * - OpenAI Completions API (v1/completions，旧版文本补全)
  *
  * 核心类型：
  * - MiddleContent: 统一的请求中间格式
  * - MiddleMessage: 统一的消息格式
+ * - MiddleContentPart: 统一的多模态内容片段（文本、图片、文件、音频、文件 ID 引用）
  * - MiddleTool: 统一的工具定义格式
+ * - MiddleResponseFormat: 统一的结构化输出格式
  *
  * 转换函数：
  * - OpenaiCompletion(): OpenAI 请求 -> MiddleContent
  * - GeminiGenerateContent(): Gemini 请求 -> MiddleContent
  * - AnthropicMessage(): Anthropic 请求 -> MiddleContent
+ * - OpenaiResponses(): OpenAI Responses 请求 -> MiddleContent
+ * - OpenaiTextCompletion(): OpenAI 文本补全请求 -> MiddleContent[]
  * - MiddleContentToPrompt(): MiddleContent -> DeepSeek prompt 字符串
  */
 
+import { normalizeStopSequences } from './stopsequence'
+import { buildResponseFormatPrompt } from './structured'
+import { buildToolPrompt, formatToolCallsMarkup } from './toolcall'
+
 // 中间层工具调用类型定义
 export type MiddleToolCall = {
   id: string
@@ -29,16 +39,25 @@ export type MiddleToolCall = {
     name: string
     arguments: string
   }
-  inlineData?: {
-    mimeType: string
-    data: string
-  }
 }
 
-// 中间层消息类型定义
+// 中间层媒体来源类型定义（base64 内联数据或 URL）
+export type MiddleMediaSource
+  = | { type: 'base64', mediaType: string, data: string }
+    | { type: 'url', url: string, mediaType?: string }
+
+// 中间层内容片段类型定义（audio 与 file_ref 原样传递，由 Provider 决定是否支持）
+export type MiddleContentPart
+  = | { type: 'text', text: string }
+    | { type: 'image', source: MiddleMediaSource }
+    | { type: 'file', source: MiddleMediaSource, filename?: string }
+    | { type: 'audio', source: MiddleMediaSource }
+    | { type: 'file_ref', fileId: string, filename?: string }
+
+// 中间层消息类型定义（纯文本消息使用字符串，包含图片/文件时使用片段数组）
 export type MiddleMessage = {
   role: 'system' | 'assistant' | 'user' | 'tool'
-  content: string
+  content: string | MiddleContentPart[]
   name?: string
   tool_calls?: MiddleToolCall[]
   tool_call_id?: string
@@ -63,6 +82,21 @@ export type MiddleToolChoice = 'none' | 'auto' | 'required' | {
   }
 }
 
+// 中间层结构化输出类型定义
+export type MiddleResponseFormat = {
+  type: 'text' | 'json_object' | 'json_schema'
+  name?: string
+  schema?: Record<string, unknown>
+}
+
+// 中间层思考（推理）开关定义
+export type MiddleThinking = {
+  /** 是否启用思考 */
+  enabled: boolean
+  /** 推理内容的 token 上限 */
+  budget_tokens?: number
+}
+
 // 中间层内容类型定义（统一格式）
 export type MiddleContent = {
   model: string
@@ -78,14 +112,31 @@ export type MiddleContent = {
   tool_choice?: MiddleToolChoice
   seed?: number
   reasoning_effort?: 'low' | 'medium' | 'high' | string
+  /** 思考开关与预算（未设置时由模型决定） */
+  thinking?: MiddleThinking
+  /** 停止序列（输出遇到任一序列即截断） */
+  stop?: string[]
+  /** 最大输出 token 数（包含推理内容） */
+  max_tokens?: number
+  /** 结构化输出要求 */
+  response_format?: MiddleResponseFormat
+  /** 是否启用联网搜索 */
+  web_search?: boolean
 }
 
+// OpenAI 消息内容片段类型定义
+export type OpenAIContentPart
+  = | { type: 'text', text: string }
+    | { type: 'image_url', image_url: { url: string, detail?: string } }
+    | { type: 'file', file: { file_data?: string, file_id?: string, filename?: string } }
+    | { type: 'input_audio', input_audio: { data: string, format: string } }
+
 // OpenAI 聊天补全请求类型定义
 export type OpenAIChatCompletionRequest = {
   model: string
   messages: Array<{
     role: 'system' | 'assistant' | 'user' | 'tool'
-    content: string | Array<{ type: 'text', text: string }>
+    content: string | OpenAIContentPart[] | null
     name?: string
     tool_calls?: Array<{
       id: string
@@ -115,6 +166,23 @@ export type OpenAIChatCompletionRequest = {
   tool_choice?: MiddleToolChoice
   seed?: number
   reasoning_effort?: 'low' | 'medium' | 'high' | string
+  stop?: string | string[]
+  max_tokens?: number
+  max_completion_tokens?: number
+  response_format?: {
+    type: 'text' | 'json_object' | 'json_schema'
+    json_schema?: {
+      name?: string
+      description?: string
+      schema?: Record<string, unknown>
+      strict?: boolean
+    }
+  }
+  /** 联网搜索选项（存在即启用搜索） */
+  web_search_options?: {
+    search_context_size?: 'low' | 'medium' | 'high'
+    user_location?: Record<string, unknown>
+  }
 }
 
 // Gemini 部分内容类型定义
@@ -124,6 +192,10 @@ export type GeminiPart = {
     mimeType: string
     data: string
   }
+  fileData?: {
+    mimeType?: string
+    fileUri: string
+  }
   functionCall?: {
     name: string
     args: Record<string, unknown>
@@ -152,6 +224,15 @@ export type GeminiGenerateContentRequest = {
     stopSequences?: string[]
     maxOutputTokens?: number
     seed?: number
+    responseMimeType?: string
+    /** OpenAPI 子集格式的 Schema（类型名为大写） */
+    responseSchema?: Record<string, unknown>
+    /** 标准 JSON Schema */
+    responseJsonSchema?: Record<string, unknown>
+    thinkingConfig?: {
+      includeThoughts?: boolean
+      thinkingBudget?: number
+    }
   }
   tools?: Array<{
     functionDeclarations?: Array<{
@@ -159,6 +240,10 @@ export type GeminiGenerateContentRequest = {
       description?: string
       parameters?: Record<string, unknown>
     }>
+    /** Google 搜索工具 */
+    googleSearch?: Record<string, unknown>
+    /** 旧版 Google 搜索工具 */
+    googleSearchRetrieval?: Record<string, unknown>
   }>
   toolConfig?: {
     functionCallingConfig?: {
@@ -168,6 +253,17 @@ export type GeminiGenerateContentRequest = {
   }
 }
 
+// Anthropic 媒体来源类型定义
+export type AnthropicMediaSource
+  = | { type: 'base64', media_type: string, data: string }
+    | { type: 'url', url: string }
+    | { type: 'text', media_type?: string, data: string }
+
+// Anthropic 图片/文档内容块类型定义
+export type AnthropicMediaBlock
+  = | { type: 'image', source: AnthropicMediaSource }
+    | { type: 'document', source: AnthropicMediaSource, title?: string }
+
 // Anthropic 消息请求类型定义
 export type AnthropicMessageRequest = {
   model: string
@@ -175,6 +271,7 @@ export type AnthropicMessageRequest = {
     role: 'user' | 'assistant'
     content: string | Array<
       | { type: 'text', text: string }
+      | AnthropicMediaBlock
       | {
         type: 'tool_use'
         id: string
@@ -184,7 +281,7 @@ export type AnthropicMessageRequest = {
       | {
         type: 'tool_result'
         tool_use_id: string
-        content: string
+        content: string | Array<{ type: 'text', text: string } | AnthropicMediaBlock>
       }
     >
   }>
@@ -196,18 +293,202 @@ export type AnthropicMessageRequest = {
   stop_sequences?: string[]
   max_tokens?: number
   tools?: Array<{
+    /** 服务端工具类型（如 web_search_20250305），自定义工具为空或 custom */
+    type?: string
     name: string
     description?: string
     input_schema?: Record<string, unknown>
   }>
+  tool_choice?: {
+    type: 'auto' | 'any' | 'tool' | 'none'
+    name?: string
+  }
+  thinking?: {
+    type: 'enabled' | 'disabled'
+    budget_tokens?: number
+  }
+}
+
+// OpenAI Responses 输入项类型定义
+export type OpenAIResponsesInputItem
+  = | {
+    type?: 'message'
+    role: 'user' | 'assistant' | 'system' | 'developer'
+    content: string | Array<
+      | { type: 'input_text' | 'output_text', text: string }
+      | { type: 'input_image', image_url?: string, file_id?: string }
+      | { type: 'input_file', file_data?: string, file_url?: string, file_id?: string, filename?: string }
+      | { type: 'input_audio', input_audio: { data: string, format: string } }
+    >
+  }
+  | {
+    type: 'function_call'
+    call_id: string
+    name: string
+    arguments: string
+  }
+  | {
+    type: 'function_call_output'
+    call_id: string
+    output: string
+  }
+  | {
+    type: 'reasoning'
+    summary?: Array<{ type: 'summary_text', text: string }>
+  }
+
+// OpenAI Responses 请求类型定义
+export type OpenAIResponsesRequest = {
+  model: string
+  input: string | OpenAIResponsesInputItem[]
+  instructions?: string
+  temperature?: number
+  top_p?: number
+  stream?: boolean
+  max_output_tokens?: number
+  tools?: Array<{
+    type: 'function' | string
+    name?: string
+    description?: string
+    parameters?: Record<string, unknown>
+  }>
+  tool_choice?: 'none' | 'auto' | 'required' | {
+    type: 'function'
+    name: string
+  }
+  reasoning?: {
+    effort?: 'low' | 'medium' | 'high' | string
+  }
+  text?: {
+    format?: {
+      type: 'text' | 'json_object' | 'json_schema'
+      name?: string
+      schema?: Record<string, unknown>
+      strict?: boolean
+    }
+  }
+}
+
+// OpenAI 文本补全请求类型定义（旧版 v1/completions）
+export type OpenAITextCompletionRequest = {
+  model: string
+  prompt: string | string[]
+  suffix?: string
+  max_tokens?: number
+  temperature?: number
+  top_p?: number
+  n?: number
+  stream?: boolean
+  echo?: boolean
+  stop?: string | string[]
+  presence_penalty?: number
+  frequency_penalty?: number
+  seed?: number
+}
+
+/**
+ * 将内容片段合并为消息内容
+ *
+ * 只有文本时合并为字符串，包含图片/文件时保留片段数组
+ * @param parts - 内容片段列表
+ * @returns 消息内容
+ */
+function toMessageContent(parts: MiddleContentPart[]): string | MiddleContentPart[] {
+  if (parts.every(part => part.type === 'text')) {
+    return parts.map(part => part.text).join('\n')
+  }
+  return parts
+}
+
+/**
+ * 将 URL 转换为媒体来源
+ *
+ * data URL（data:image/png;base64,...）转换为 base64 来源，其余视为远程 URL
+ * @param url - 图片或文件 URL
+ * @returns 媒体来源
+ */
+function toMediaSource(url: string): MiddleMediaSource {
+  const match = url.match(/^data:([^;,]+)?(?:;[^;,]*)*;base64,(.*)$/s)
+  if (match) {
+    return { type: 'base64', mediaType: match[1] || 'application/octet-stream', data: match[2]! }
+  }
+  return { type: 'url', url }
+}
+
+/**
+ * 根据 MIME 类型创建图片或文件片段
+ * @param source - 媒体来源
+ * @param mediaType - MIME 类型
+ * @param filename - 文件名（可选）
+ */
+function toMediaPart(source: MiddleMediaSource, mediaType: string | undefined, filename?: string): MiddleContentPart {
+  if (mediaType?.startsWith('image/')) {
+    return { type: 'image', source }
+  }
+  return { type: 'file', source, ...(filename ? { filename } : {}) }
+}
+
+/**
+ * 将 OpenAI 消息内容转换为中间层消息内容
+ *
+ * @param content - 字符串或内容片段数组
+ * @returns 中间层消息内容
+ */
+function fromOpenAIContent(content: string | OpenAIContentPart[] | null): string | MiddleContentPart[] {
+  if (typeof content === 'string' || !content) {
+    return content ?? ''
+  }
+
+  const parts: MiddleContentPart[] = []
+  for (const part of content) {
+    if (part.type === 'text') {
+      parts.push({ type: 'text', text: part.text })
+    } else if (part.type === 'image_url') {
+      parts.push({ type: 'image', source: toMediaSource(part.image_url.url) })
+    } else if (part.type === 'file' && part.file.file_data) {
+      const source = toMediaSource(part.file.file_data)
+      parts.push({ type: 'file', source, ...(part.file.filename ? { filename: part.file.filename } : {}) })
+    } else if (part.type === 'file' && part.file.file_id) {
+      parts.push({ type: 'file_ref', fileId: part.file.file_id, ...(part.file.filename ? { filename: part.file.filename } : {}) })
+    } else if (part.type === 'input_audio') {
+      const mediaType = `audio/${part.input_audio.format}`
+      parts.push({ type: 'audio', source: { type: 'base64', mediaType, data: part.input_audio.data } })
+    }
+  }
+  return toMessageContent(parts)
 }
 
 /**
- * 将文本内容转换为字符串
- * @param content - 字符串或文本对象数组
- * @returns 转换后的字符串
+ * 将 Anthropic 图片/文档内容块转换为中间层内容片段
+ *
+ * 纯文本来源的文档直接作为文本片段
+ * @param block - 图片或文档内容块
+ * @returns 中间层内容片段
  */
-function toTextContent(content: string | Array<{ type: 'text', text: string }>): string {
+function fromAnthropicMedia(block: AnthropicMediaBlock): MiddleContentPart {
+  const source = block.source
+  if (source.type === 'text') {
+    const title = block.type === 'document' && block.title ? `${block.title}\n` : ''
+    return { type: 'text', text: `${title}${source.data}` }
+  }
+
+  const media: MiddleMediaSource = source.type === 'base64'
+    ? { type: 'base64', mediaType: source.media_type, data: source.data }
+    : { type: 'url', url: source.url }
+  if (block.type === 'image') {
+    return { type: 'image', source: media }
+  }
+  return { type: 'file', source: media, ...(block.title ? { filename: block.title } : {}) }
+}
+
+/**
+ * 提取消息内容中的文本
+ *
+ * 图片/文件片段会被忽略
+ * @param content - 中间层消息内容
+ * @returns 文本内容
+ */
+export function getMessageText(content: MiddleMessage['content']): string {
   if (typeof content === 'string') {
     return content
   }
@@ -217,6 +498,25 @@ function toTextContent(content: string | Array<{ type: 'text', text: string }>):
     .join('\n')
 }
 
+/**
+ * 查找请求中 Provider 不支持的内容片段类型
+ *
+ * @param content - 中间层请求
+ * @param supported - Provider 支持的片段类型
+ * @returns 第一个不支持的片段类型，全部支持时返回 null
+ */
+export function findUnsupportedContentPart(
+  content: MiddleContent,
+  supported: Array<MiddleContentPart['type']>
+): MiddleContentPart['type'] | null {
+  for (const message of content.messages) {
+    if (typeof message.content === 'string') continue
+    const part = message.content.find(item => !supported.includes(item.type))
+    if (part) return part.type
+  }
+  return null
+}
+
 /**
  * 安全地将值转换为 JSON 字符串
  * @param value - 要转换的值
@@ -247,6 +547,78 @@ function parseJsonObjectOrRawText(value: string): { parsed: Record<string, unkno
   return { parsed: {}, text: value }
 }
 
+/**
+ * 规范化最大输出 token 数
+ * @param value - 原始参数
+ * @returns 正整数，无效值返回 undefined
+ */
+function toMaxTokens(value: unknown): number | undefined {
+  const tokens = Math.floor(Number(value))
+  return Number.isFinite(tokens) && tokens > 0 ? tokens : undefined
+}
+
+/**
+ * 将 reasoning_effort 转换为思考开关
+ *
+ * none 表示关闭思考，其余取值均开启（DeepSeek 不区分推理强度）
+ * @param effort - OpenAI reasoning_effort
+ * @returns 思考开关，未设置时返回 undefined
+ */
+function fromReasoningEffort(effort: string | undefined): MiddleThinking | undefined {
+  if (!effort) return undefined
+  return { enabled: effort !== 'none' }
+}
+
+/**
+ * 将 Gemini thinkingConfig 转换为思考开关
+ *
+ * thinkingBudget 为 0 时关闭，正数作为预算，-1（动态）或 includeThoughts 时开启
+ * @param config - Gemini thinkingConfig
+ * @returns 思考开关，未设置时返回 undefined
+ */
+function fromGeminiThinkingConfig(config: { includeThoughts?: boolean, thinkingBudget?: number } | undefined): MiddleThinking | undefined {
+  const budget = config?.thinkingBudget
+  if (budget === 0) return { enabled: false }
+  if (typeof budget === 'number' && budget > 0) return { enabled: true, budget_tokens: toMaxTokens(budget) }
+  if (budget === -1 || config?.includeThoughts) return { enabled: true }
+  return undefined
+}
+
+/**
+ * 将 Gemini OpenAPI 风格的 Schema 转换为标准 JSON Schema
+ *
+ * 类型名转为小写，nullable 转为包含 null 的类型数组
+ * @param schema - Gemini responseSchema
+ * @returns 标准 JSON Schema
+ */
+function normalizeGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(normalizeGeminiSchema)
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase()
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, normalizeGeminiSchema(property)])
+      )
+    } else if (key !== 'nullable' && key !== 'propertyOrdering') {
+      result[key] = normalizeGeminiSchema(value)
+    }
+  }
+
+  const nullable = (schema as { nullable?: unknown }).nullable === true
+  if (nullable && typeof result.type === 'string') {
+    result.type = [result.type, 'null']
+  }
+  return result
+}
+
 /**
  * 将 OpenAI v1/chat/completion 接口的请求参数转换为适合本项目使用的格式
  * @param body - OpenAI 聊天补全请求对象
@@ -257,7 +629,7 @@ export function OpenaiCompletion(body: OpenAIChatCompletionRequest): MiddleConte
     model: body.model,
     messages: body.messages.map(message => ({
       role: message.role,
-      content: toTextContent(message.content),
+      content: fromOpenAIContent(message.content),
       name: message.name,
       tool_calls: message.tool_calls?.map(toolCall => ({
         id: toolCall.id,
@@ -287,7 +659,19 @@ export function OpenaiCompletion(body: OpenAIChatCompletionRequest): MiddleConte
     })),
     tool_choice: body.tool_choice,
     seed: body.seed,
-    reasoning_effort: body.reasoning_effort
+    reasoning_effort: body.reasoning_effort,
+    thinking: fromReasoningEffort(body.reasoning_effort),
+    web_search: body.web_search_options ? true : undefined,
+    stop: normalizeStopSequences(body.stop),
+    // max_completion_tokens 优先，max_tokens 为旧参数
+    max_tokens: toMaxTokens(body.max_completion_tokens ?? body.max_tokens),
+    response_format: body.response_format
+      ? {
+          type: body.response_format.type,
+          name: body.response_format.json_schema?.name,
+          schema: body.response_format.json_schema?.schema
+        }
+      : undefined
   }
 }
 
@@ -317,35 +701,35 @@ export function GeminiGenerateContent(body: GeminiGenerateContentRequest): Middl
   for (const content of body.contents ?? []) {
     const role: MiddleMessage['role'] = content.role === 'model' ? 'assistant' : 'user'
 
+    // 连续的文本/媒体 part 合并为一条消息，遇到函数调用或响应时输出
+    let pending: MiddleContentPart[] = []
+    const flushPending = () => {
+      if (pending.length) {
+        messages.push({ role, content: toMessageContent(pending) })
+        pending = []
+      }
+    }
+
     for (const part of content.parts ?? []) {
       // 处理文本部分
       if (part.text) {
-        messages.push({
-          role,
-          content: part.text
-        })
+        pending.push({ type: 'text', text: part.text })
       }
 
       // 处理内联数据
       if (part.inlineData) {
-        messages.push({
-          role,
-          content: '',
-          tool_calls: [
-            {
-              id: `inline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-              type: 'inline_data',
-              function: {
-                name: 'inlineData',
-                arguments: '{}'
-              },
-              inlineData: {
-                mimeType: part.inlineData.mimeType,
-                data: part.inlineData.data
-              }
-            }
-          ]
-        })
+        const source: MiddleMediaSource = { type: 'base64', mediaType: part.inlineData.mimeType, data: part.inlineData.data }
+        pending.push(toMediaPart(source, part.inlineData.mimeType))
+      }
+
+      // 处理文件引用
+      if (part.fileData) {
+        const source: MiddleMediaSource = { type: 'url', url: part.fileData.fileUri, mediaType: part.fileData.mimeType }
+        pending.push(toMediaPart(source, part.fileData.mimeType))
+      }
+
+      if (part.functionCall || part.functionResponse) {
+        flushPending()
       }
 
       // 处理函数调用
@@ -375,11 +759,17 @@ export function GeminiGenerateContent(body: GeminiGenerateContentRequest): Middl
         })
       }
     }
+
+    flushPending()
   }
 
-  // 处理工具声明
+  // 处理工具声明（googleSearch 工具转为联网搜索开关）
   const tools: MiddleTool[] = []
+  let webSearch = false
   for (const tool of body.tools ?? []) {
+    if (tool.googleSearch || tool.googleSearchRetrieval) {
+      webSearch = true
+    }
     for (const declaration of tool.functionDeclarations ?? []) {
       tools.push({
         type: 'function',
@@ -413,6 +803,17 @@ export function GeminiGenerateContent(body: GeminiGenerateContentRequest): Middl
     }
   }
 
+  // 处理结构化输出配置（responseJsonSchema 优先）
+  let responseFormat: MiddleResponseFormat | undefined
+  const config = body.generationConfig
+  if (config?.responseJsonSchema) {
+    responseFormat = { type: 'json_schema', schema: config.responseJsonSchema }
+  } else if (config?.responseSchema) {
+    responseFormat = { type: 'json_schema', schema: normalizeGeminiSchema(config.responseSchema) as Record<string, unknown> }
+  } else if (config?.responseMimeType === 'application/json') {
+    responseFormat = { type: 'json_object' }
+  }
+
   return {
     model: body.model ?? 'gemini',
     messages,
@@ -422,7 +823,12 @@ export function GeminiGenerateContent(body: GeminiGenerateContentRequest): Middl
     n: body.generationConfig?.candidateCount,
     tools: tools.length ? tools : undefined,
     tool_choice: toolChoice,
-    seed: body.generationConfig?.seed
+    seed: body.generationConfig?.seed,
+    stop: normalizeStopSequences(body.generationConfig?.stopSequences),
+    max_tokens: toMaxTokens(body.generationConfig?.maxOutputTokens),
+    thinking: fromGeminiThinkingConfig(body.generationConfig?.thinkingConfig),
+    response_format: responseFormat,
+    web_search: webSearch || undefined
   }
 }
 
@@ -462,16 +868,31 @@ export function AnthropicMessage(body: AnthropicMessageRequest): MiddleContent {
       continue
     }
 
+    // 连续的文本/图片/文档块合并为一条消息，遇到工具块时输出
+    let pending: MiddleContentPart[] = []
+    const flushPending = () => {
+      if (pending.length) {
+        messages.push({ role: message.role, content: toMessageContent(pending) })
+        pending = []
+      }
+    }
+
     // 处理复杂内容类型
     for (const part of message.content) {
       // 处理文本部分
       if (part.type === 'text') {
-        messages.push({
-          role: message.role,
-          content: part.text
-        })
+        pending.push({ type: 'text', text: part.text })
+        continue
       }
 
+      // 处理图片与文档
+      if (part.type === 'image' || part.type === 'document') {
+        pending.push(fromAnthropicMedia(part))
+        continue
+      }
+
+      flushPending()
+
       // 处理工具使用
       if (part.type === 'tool_use') {
         messages.push({
@@ -490,12 +911,21 @@ export function AnthropicMessage(body: AnthropicMessageRequest): MiddleContent {
         })
       }
 
-      // 处理工具结果
+      // 处理工具结果（内容块数组中的图片/文档保留为片段）
       if (part.type === 'tool_result') {
-        const parsed = parseJsonObjectOrRawText(part.content)
+        const blocks = typeof part.content === 'string'
+          ? [{ type: 'text' as const, text: part.content }]
+          : part.content ?? []
+        const resultParts = blocks.map(block => block.type === 'text' ? { type: 'text' as const, text: block.text } : fromAnthropicMedia(block))
+        const resultText = getMessageText(toMessageContent(resultParts))
+        const mediaParts = resultParts.filter(item => item.type !== 'text')
+
+        const parsed = parseJsonObjectOrRawText(resultText)
         messages.push({
           role: 'tool',
-          content: parsed.text,
+          content: mediaParts.length
+            ? [...(parsed.text ? [{ type: 'text' as const, text: parsed.text }] : []), ...mediaParts]
+            : parsed.text,
           tool_call_id: part.tool_use_id,
           tool_calls: Object.keys(parsed.parsed).length
             ? [
@@ -512,8 +942,43 @@ export function AnthropicMessage(body: AnthropicMessageRequest): MiddleContent {
         })
       }
     }
+
+    flushPending()
   }
 
+  // web_search 服务端工具（转为联网搜索开关，不作为函数暴露）
+  const webSearchTools = (body.tools ?? []).filter(tool => tool.type?.startsWith('web_search'))
+
+  // 处理工具选择配置（强制使用 web_search 时只需开启搜索）
+  let toolChoice: MiddleToolChoice | undefined
+  const choice = body.tool_choice
+  if (choice?.type === 'none') {
+    toolChoice = 'none'
+  } else if (choice?.type === 'auto') {
+    toolChoice = 'auto'
+  } else if (choice?.type === 'any') {
+    toolChoice = 'required'
+  } else if (choice?.type === 'tool' && choice.name && !webSearchTools.some(tool => tool.name === choice.name)) {
+    toolChoice = {
+      type: 'function',
+      function: {
+        name: choice.name
+      }
+    }
+  }
+
+  // 处理工具声明
+  const tools: MiddleTool[] = (body.tools ?? [])
+    .filter(tool => !webSearchTools.includes(tool))
+    .map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema
+      }
+    }))
+
   return {
     model: body.model,
     messages,
@@ -521,45 +986,245 @@ export function AnthropicMessage(body: AnthropicMessageRequest): MiddleContent {
     top_p: body.top_p,
     top_k: body.top_k,
     stream: body.stream,
-    tools: body.tools?.map(tool => ({
+    tools: tools.length ? tools : undefined,
+    tool_choice: toolChoice,
+    stop: normalizeStopSequences(body.stop_sequences),
+    max_tokens: toMaxTokens(body.max_tokens),
+    thinking: body.thinking
+      ? {
+          enabled: body.thinking.type === 'enabled',
+          budget_tokens: body.thinking.type === 'enabled' ? toMaxTokens(body.thinking.budget_tokens) : undefined
+        }
+      : undefined,
+    web_search: webSearchTools.length ? true : undefined
+  }
+}
+
+/**
+ * 将 OpenAI v1/responses 接口的请求参数转换为适合本项目使用的格式
+ * @param body - OpenAI Responses 请求对象
+ * @returns 中间层内容对象
+ */
+export function OpenaiResponses(body: OpenAIResponsesRequest): MiddleContent {
+  const messages: MiddleMessage[] = []
+
+  // 处理系统指令
+  if (body.instructions) {
+    messages.push({
+      role: 'system',
+      content: body.instructions
+    })
+  }
+
+  // 处理输入项（字符串等价于单条用户消息）
+  const items = typeof body.input === 'string'
+    ? [{ role: 'user' as const, content: body.input }]
+    : body.input ?? []
+
+  for (const item of items) {
+    // 处理函数调用
+    if (item.type === 'function_call') {
+      messages.push({
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: item.call_id,
+            type: 'function',
+            function: {
+              name: item.name,
+              arguments: item.arguments
+            }
+          }
+        ]
+      })
+      continue
+    }
+
+    // 处理函数调用结果
+    if (item.type === 'function_call_output') {
+      messages.push({
+        role: 'tool',
+        content: item.output,
+        tool_call_id: item.call_id
+      })
+      continue
+    }
+
+    // 推理项只用于多轮状态回传，不进入 prompt
+    if (item.type === 'reasoning') {
+      continue
+    }
+
+    // 处理消息（developer 视为 system）
+    const parts: MiddleContentPart[] = []
+    for (const part of typeof item.content === 'string' ? [] : item.content) {
+      if (part.type === 'input_text' || part.type === 'output_text') {
+        parts.push({ type: 'text', text: part.text })
+      } else if (part.type === 'input_image' && part.image_url) {
+        parts.push({ type: 'image', source: toMediaSource(part.image_url) })
+      } else if (part.type === 'input_file' && (part.file_data || part.file_url)) {
+        const source = toMediaSource(part.file_data ?? part.file_url!)
+        parts.push({ type: 'file', source, ...(part.filename ? { filename: part.filename } : {}) })
+      } else if ((part.type === 'input_image' || part.type === 'input_file') && part.file_id) {
+        const filename = part.type === 'input_file' ? part.filename : undefined
+        parts.push({ type: 'file_ref', fileId: part.file_id, ...(filename ? { filename } : {}) })
+      } else if (part.type === 'input_audio') {
+        const mediaType = `audio/${part.input_audio.format}`
+        parts.push({ type: 'audio', source: { type: 'base64', mediaType, data: part.input_audio.data } })
+      }
+    }
+    messages.push({
+      role: item.role === 'developer' ? 'system' : item.role,
+      content: typeof item.content === 'string' ? item.content : toMessageContent(parts)
+    })
+  }
+
+  // 处理工具声明（仅支持 function 类型，web_search 工具转为联网搜索开关）
+  const tools: MiddleTool[] = []
+  let webSearch = false
+  for (const tool of body.tools ?? []) {
+    if (tool.type.startsWith('web_search')) {
+      webSearch = true
+      continue
+    }
+    if (tool.type !== 'function' || !tool.name) continue
+    tools.push({
       type: 'function',
       function: {
         name: tool.name,
         description: tool.description,
-        parameters: tool.input_schema
+        parameters: tool.parameters
       }
-    }))
+    })
+  }
+
+  // 处理工具选择配置
+  let toolChoice: MiddleToolChoice | undefined
+  if (typeof body.tool_choice === 'string') {
+    toolChoice = body.tool_choice
+  } else if (body.tool_choice?.type === 'function') {
+    toolChoice = {
+      type: 'function',
+      function: {
+        name: body.tool_choice.name
+      }
+    }
+  }
+
+  return {
+    model: body.model,
+    messages,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stream: body.stream,
+    tools: tools.length ? tools : undefined,
+    tool_choice: toolChoice,
+    reasoning_effort: body.reasoning?.effort,
+    thinking: fromReasoningEffort(body.reasoning?.effort),
+    max_tokens: toMaxTokens(body.max_output_tokens),
+    response_format: body.text?.format
+      ? {
+          type: body.text.format.type,
+          name: body.text.format.name,
+          schema: body.text.format.schema
+        }
+      : undefined,
+    web_search: webSearch || undefined
   }
 }
 
+/**
+ * 将 OpenAI v1/completions 接口的请求参数转换为适合本项目使用的格式
+ *
+ * 每个 prompt 包装为一条用户消息，prompt 数组会展开为多个中间层请求；
+ * 提供 suffix 时追加插入式补全的系统说明
+ *
+ * @param body - OpenAI 文本补全请求对象
+ * @returns 中间层内容对象数组（与 prompt 一一对应）
+ */
+export function OpenaiTextCompletion(body: OpenAITextCompletionRequest): MiddleContent[] {
+  const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt ?? '']
+
+  return prompts.map((prompt) => {
+    const messages: MiddleMessage[] = []
+
+    // 插入式补全：要求模型只输出前后文之间的内容
+    if (body.suffix) {
+      messages.push({
+        role: 'system',
+        content: `Complete the text. Output only the text that belongs between the user's text and the following suffix, without repeating either of them.\nSuffix:\n${body.suffix}`
+      })
+    }
+
+    messages.push({
+      role: 'user',
+      content: prompt
+    })
+
+    return {
+      model: body.model,
+      messages,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      n: body.n,
+      stream: body.stream,
+      presence_penalty: body.presence_penalty,
+      frequency_penalty: body.frequency_penalty,
+      seed: body.seed,
+      stop: normalizeStopSequences(body.stop),
+      max_tokens: toMaxTokens(body.max_tokens)
+    }
+  })
+}
+
 /**
  * 转prompt请求体
+ *
+ * 请求携带工具定义时，会在开头注入工具说明（见 toolcall.ts），
+ * 历史中的工具调用也按相同的标记格式渲染；
+ * 要求 JSON 输出时注入输出格式说明（见 structured.ts）
+ *
  * @param content 输入数据
  */
 export function MiddleContentToPrompt(content: MiddleContent): string {
   let prompt = ''
+
+  // 注入工具说明
+  const toolPrompt = buildToolPrompt(content)
+  if (toolPrompt) {
+    prompt += `<|system|>${toolPrompt}\n`
+  }
+
+  // 注入输出格式说明
+  const formatPrompt = buildResponseFormatPrompt(content)
+  if (formatPrompt) {
+    prompt += `<|system|>${formatPrompt}\n`
+  }
+
   for (const message of content.messages) {
     const role = message.role
-    const itemContent = message.content
+    // 图片/文件片段由 Provider 另行处理，prompt 中只保留文本
+    const itemContent = getMessageText(message.content)
     let text = ''
     if (role === 'user')
       text = `<|User|>${itemContent}`
     else if (role === 'system')
       text = `<|system|>${itemContent}`
-    else if (role === 'tool')
-      text = `<|tool_outputs id=${message.tool_call_id}|>${itemContent}`
-    else if (role === 'assistant') {
+    else if (role === 'tool') {
+      // 结构化的工具结果（如 Anthropic tool_result）保存在 tool_calls 中
+      const output = itemContent || (message.tool_calls ?? []).map(call => call.function.arguments).join('\n')
+      const target = message.tool_call_id ? `id=${message.tool_call_id}` : `name=${message.name ?? ''}`
+      text = `<|tool_outputs ${target}|>${output}`
+    } else if (role === 'assistant') {
       text = '<|Assistant|>'
       if (message.reasoning_content) {
         text += `<|Thought|>${message.reasoning_content}<｜end▁of▁sentence｜>`
       }
+      text += itemContent
       if (message.tool_calls) {
-        text += '<|ToolCall|>'
-        for (const tool_call of message.tool_calls) {
-          text += `<|Tool id=${tool_call.id} type=${tool_call.type} name=${tool_call.function.name} arguments=${tool_call.function.arguments}|>`
-        }
+        text += formatToolCallsMarkup(message.tool_calls)
       }
-      text += itemContent
       text += '<｜end▁of▁sentence｜>'
     }
     prompt += text + '\n'
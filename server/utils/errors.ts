@@ -0,0 +1,227 @@
+/**
+ * errors.ts - 协议错误格式模块
+ *
+ * 各路由抛出的错误默认由 Nitro 返回通用的错误 JSON，客户端 SDK 无法识别，
+ * 导致重试与错误处理逻辑失效。本模块将错误转换为各协议自身的错误格式：
+ * - OpenAI: { error: { message, type, code, param } }
+ * - Anthropic: { type: 'error', error: { type, message } }
+ * - Gemini: { error: { code, message, status } }
+ *
+ * 流式响应中途出错时，由 chat.ts 的各转换器使用同样的错误体输出对应协议的 SSE 错误事件。
+ *
+ * 核心函数：
+ * - defineProtocolEventHandler(): 定义按协议格式返回错误的路由处理器
+ * - getErrorStatus(): 获取错误对应的 HTTP 状态码
+ * - toOpenAIError() / toAnthropicError() / toGeminiError(): 构建各协议错误体
+ * - fromOpenAIError(): 将 OpenAI 格式错误体还原为 H3 错误
+ */
+
+import type { H3Event } from 'h3'
+
+/**
+ * 错误格式所属协议
+ */
+export type ErrorProtocol = 'openai' | 'anthropic' | 'gemini'
+
+/**
+ * OpenAI 格式错误体
+ */
+export type OpenAIErrorBody = {
+  error: {
+    message: string
+    type: string
+    code: string | null
+    param: string | null
+  }
+}
+
+/**
+ * Anthropic 格式错误体
+ */
+export type AnthropicErrorBody = {
+  type: 'error'
+  error: {
+    type: string
+    message: string
+  }
+}
+
+/**
+ * Gemini 格式错误体
+ */
+export type GeminiErrorBody = {
+  error: {
+    code: number
+    message: string
+    status: string
+  }
+}
+
+// HTTP 状态码 -> OpenAI 错误类型
+const OPENAI_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  409: 'conflict_error',
+  422: 'unprocessable_entity_error',
+  429: 'rate_limit_error'
+}
+
+// HTTP 状态码 -> OpenAI 错误码（5xx 的错误类型都是 server_error，靠错误码区分具体状态）
+const OPENAI_ERROR_CODES: Record<number, string> = {
+  401: 'invalid_api_key',
+  429: 'rate_limit_exceeded',
+  502: 'bad_gateway',
+  503: 'service_unavailable',
+  504: 'gateway_timeout'
+}
+
+// HTTP 状态码 -> Anthropic 错误类型
+const ANTHROPIC_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  402: 'billing_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  503: 'overloaded_error',
+  504: 'timeout_error',
+  529: 'overloaded_error'
+}
+
+// HTTP 状态码 -> Gemini（google.rpc.Code）状态
+const GEMINI_ERROR_STATUSES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  409: 'ABORTED',
+  429: 'RESOURCE_EXHAUSTED',
+  499: 'CANCELLED',
+  500: 'INTERNAL',
+  501: 'UNIMPLEMENTED',
+  502: 'UNAVAILABLE',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED'
+}
+
+/**
+ * 获取错误对应的 HTTP 状态码
+ *
+ * H3 错误使用其 statusCode，其他错误视为服务端内部错误
+ */
+export function getErrorStatus(error: unknown) {
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode
+  if (typeof statusCode === 'number' && statusCode >= 400 && statusCode <= 599) {
+    return statusCode
+  }
+  return 500
+}
+
+/**
+ * 获取错误信息
+ */
+function getErrorMessage(error: unknown) {
+  if (error && typeof error === 'object') {
+    const { message, statusMessage } = error as { message?: unknown, statusMessage?: unknown }
+    if (typeof message === 'string' && message) return message
+    if (typeof statusMessage === 'string' && statusMessage) return statusMessage
+  }
+  if (typeof error === 'string' && error) return error
+  return 'Internal Server Error'
+}
+
+/**
+ * 构建 OpenAI 格式错误体
+ */
+export function toOpenAIError(error: unknown): OpenAIErrorBody {
+  const status = getErrorStatus(error)
+  return {
+    error: {
+      message: getErrorMessage(error),
+      type: OPENAI_ERROR_TYPES[status] ?? (status >= 500 ? 'server_error' : 'invalid_request_error'),
+      code: OPENAI_ERROR_CODES[status] ?? null,
+      param: null
+    }
+  }
+}
+
+/**
+ * 构建 Anthropic 格式错误体
+ */
+export function toAnthropicError(error: unknown): AnthropicErrorBody {
+  const status = getErrorStatus(error)
+  return {
+    type: 'error',
+    error: {
+      type: ANTHROPIC_ERROR_TYPES[status] ?? (status >= 500 ? 'api_error' : 'invalid_request_error'),
+      message: getErrorMessage(error)
+    }
+  }
+}
+
+/**
+ * 构建 Gemini 格式错误体
+ */
+export function toGeminiError(error: unknown): GeminiErrorBody {
+  const status = getErrorStatus(error)
+  return {
+    error: {
+      code: status,
+      message: getErrorMessage(error),
+      status: GEMINI_ERROR_STATUSES[status] ?? (status >= 500 ? 'INTERNAL' : 'FAILED_PRECONDITION')
+    }
+  }
+}
+
+/**
+ * 将 OpenAI 格式错误体还原为 H3 错误
+ *
+ * 用于读取 Provider 输出的 SSE 流时，把流中的错误事件重新抛出，
+ * 再由各转换器按目标协议输出。状态码优先按错误码还原（区分 502/503/504），其次按错误类型
+ *
+ * @param body - 错误体中的 error 字段
+ */
+export function fromOpenAIError(body: unknown) {
+  const { message, type, code } = (body && typeof body === 'object' ? body : {}) as { message?: unknown, type?: unknown, code?: unknown }
+  const entry = Object.entries(OPENAI_ERROR_CODES).find(([, value]) => value === code)
+    ?? Object.entries(OPENAI_ERROR_TYPES).find(([, value]) => value === type)
+  const status = Number(entry?.[0] ?? 500)
+  return createError({
+    statusCode: status,
+    message: typeof message === 'string' && message ? message : 'Provider stream failed'
+  })
+}
+
+/**
+ * 定义按协议格式返回错误的路由处理器
+ *
+ * 处理器抛出的错误按协议转换为对应的错误体，状态码保持不变。
+ * 服务端内部错误（5xx）会记录日志。
+ *
+ * @param protocol - 错误格式所属协议，可按请求动态决定（如 /v1/models 同时服务 OpenAI 与 Anthropic）
+ * @param handler - 路由处理函数
+ */
+export function defineProtocolEventHandler<T>(
+  protocol: ErrorProtocol | ((event: H3Event) => ErrorProtocol),
+  handler: (event: H3Event) => T | Promise<T>
+) {
+  return defineEventHandler(async (event) => {
+    try {
+      return await handler(event)
+    } catch (error) {
+      const status = getErrorStatus(error)
+      if (status >= 500) {
+        console.error(`❌ ${event.method} ${event.path} failed:`, error)
+      }
+
+      setResponseStatus(event, status)
+      const target = typeof protocol === 'function' ? protocol(event) : protocol
+      if (target === 'anthropic') return toAnthropicError(error)
+      if (target === 'gemini') return toGeminiError(error)
+      return toOpenAIError(error)
+    }
+  })
+}
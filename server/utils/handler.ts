@@ -4,6 +4,8 @@
  * 本模块实现了一个简单的 Provider Handler 注册表，用于：
  * 1. 注册不同提供商（如 DeepSeek、OpenAI 等）的处理函数
  * 2. 根据模型名称动态解析对应的处理函数
+ * 3. 注册各提供商的 prompt token 计数函数（用于 count_tokens 类端点）
+ * 4. 注册各提供商的账号健康检查函数（由 health.ts 定期调用）
  *
  * 设计理念：
  * - 所有 handler 统一接收 MiddleContent 格式的请求
@@ -24,6 +26,29 @@ import { getModelOwner } from './selector'
  */
 export type ProviderHandler = (body: MiddleContent) => Promise<Response> | Response
 
+/**
+ * Provider Token 计数函数类型定义
+ *
+ * 使用与 handler 相同的 prompt 构造方式计算请求的输入 token 数，
+ * 保证计数结果与实际发送给上游的内容一致
+ *
+ * @param body - 中间格式请求体
+ * @returns 输入 token 数
+ */
+export type ProviderTokenCounter = (body: MiddleContent) => Promise<number> | number
+
+/**
+ * Provider 账号健康检查函数类型定义
+ *
+ * 检查单个账号是否可用（如令牌有效、能创建会话），不应发起补全请求。
+ * 检查期间应与普通请求一样通过账号选择器占用账号，账号已达到并发上限时返回 'skipped'
+ *
+ * @param fileName - 账号文件名
+ * @returns 'skipped' 表示本轮未检查（账号状态保持不变）
+ * @throws 账号不可用时抛出错误（错误信息记录到账号状态）
+ */
+export type ProviderHealthProbe = (fileName: string) => Promise<'skipped' | undefined>
+
 /**
  * Provider Handler 注册表
  *
@@ -32,6 +57,22 @@ export type ProviderHandler = (body: MiddleContent) => Promise<Response> | Respo
  */
 const providerHandlers = new Map<string, ProviderHandler>()
 
+/**
+ * Provider Token 计数函数注册表
+ *
+ * key: owner（提供商标识）
+ * value: 对应的 token 计数函数
+ */
+const providerTokenCounters = new Map<string, ProviderTokenCounter>()
+
+/**
+ * Provider 账号健康检查函数注册表
+ *
+ * key: owner（提供商标识，同时也是账号文件的 type）
+ * value: 对应的健康检查函数
+ */
+const providerHealthProbes = new Map<string, ProviderHealthProbe>()
+
 /**
  * 注册 Provider Handler
  *
@@ -99,3 +140,70 @@ export function resolveHandlerByModel(model: string) {
     handler
   }
 }
+
+/**
+ * 注册 Provider Token 计数函数
+ *
+ * @param owner - 提供商标识（如 "deepseek"）
+ * @param counter - token 计数函数
+ *
+ * @example
+ * ```ts
+ * // 在 deepseek/index.ts 中
+ * registerProviderTokenCounter('deepseek', countDeepSeekPromptTokens)
+ * ```
+ */
+export function registerProviderTokenCounter(owner: string, counter: ProviderTokenCounter) {
+  if (!owner) return
+  providerTokenCounters.set(owner, counter)
+}
+
+/**
+ * 根据模型名称解析对应的 token 计数函数
+ *
+ * @param model - 模型名称
+ * @returns { owner, counter } | null
+ *   - 模型未注册或提供商未注册计数函数时返回 null
+ */
+export function resolveTokenCounterByModel(model: string) {
+  const owner = getModelOwner(model)
+  if (!owner) {
+    return null
+  }
+
+  const counter = providerTokenCounters.get(owner)
+  if (!counter) {
+    return null
+  }
+
+  return {
+    owner,
+    counter
+  }
+}
+
+/**
+ * 注册 Provider 账号健康检查函数
+ *
+ * @param owner - 提供商标识（如 "deepseek"）
+ * @param probe - 健康检查函数
+ *
+ * @example
+ * ```ts
+ * // 在 deepseek/index.ts 中
+ * registerProviderHealthProbe('deepseek', probeDeepSeekAccount)
+ * ```
+ */
+export function registerProviderHealthProbe(owner: string, probe: ProviderHealthProbe) {
+  if (!owner) return
+  providerHealthProbes.set(owner, probe)
+}
+
+/**
+ * 获取所有已注册的健康检查函数
+ *
+ * @returns { owner, probe } 数组
+ */
+export function getProviderHealthProbes() {
+  return Array.from(providerHealthProbes.entries()).map(([owner, probe]) => ({ owner, probe }))
+}
@@ -0,0 +1,155 @@
+/**
+ * health.ts - 账号健康检查调度模块
+ *
+ * 由 Nitro 插件（server/plugins/health.ts）启动，定期调用各提供商注册的健康检查函数，
+ * 逐个检查账号是否可用，并将结果（状态、检查时间、错误信息、耗时）写入账号状态存储。
+ * 检查失败的账号会被账号选择器跳过，直到下一次检查成功。
+ * 正被请求占满（达到并发上限）的账号本轮跳过，保留上一次的检查结果。
+ *
+ * 配置（config.yaml 中的 health_check）：
+ * - enabled: 是否启用（默认启用）
+ * - interval_seconds: 检查间隔
+ * - timeout_ms: 单个账号的检查超时
+ * - request_interval_ms: 相邻两个账号检查之间的间隔（避免触发上游风控）
+ *
+ * 每轮检查结束后按当前配置安排下一轮，修改配置后无需重启。
+ *
+ * 核心函数：
+ * - startHealthChecks(): 启动定期检查
+ * - stopHealthChecks(): 停止定期检查
+ * - runHealthChecks(): 立即执行一轮检查
+ */
+
+import { getAccountsWithFiles, type AccountEntry } from './accounts'
+import { updateAccountState } from './accountstate'
+import { getConfig } from './config'
+import { getProviderHealthProbes } from './handler'
+
+/** 默认检查间隔（秒） */
+const DEFAULT_INTERVAL_SECONDS = 600
+/** 默认单个账号的检查超时（毫秒） */
+const DEFAULT_TIMEOUT_MS = 30000
+/** 默认相邻两个账号检查之间的间隔（毫秒） */
+const DEFAULT_REQUEST_INTERVAL_MS = 1000
+/** 服务启动后首轮检查的延迟（毫秒），等待配置与账号加载完成 */
+const INITIAL_DELAY_MS = 10000
+
+// 下一轮检查的定时器
+let checkTimer: ReturnType<typeof setTimeout> | null = null
+// 是否有检查正在执行
+let checking = false
+
+/**
+ * 获取健康检查配置
+ */
+function getHealthCheckConfig() {
+  const config = getConfig()?.health_check
+  return {
+    enabled: config?.enabled ?? true,
+    intervalMs: Math.max(1, config?.interval_seconds ?? DEFAULT_INTERVAL_SECONDS) * 1000,
+    timeoutMs: config?.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+    requestIntervalMs: config?.request_interval_ms ?? DEFAULT_REQUEST_INTERVAL_MS
+  }
+}
+
+/**
+ * 在超时时间内执行检查
+ */
+async function withTimeout<T>(task: Promise<T>, timeoutMs: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  try {
+    return await Promise.race([
+      task,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Health check timed out after ${timeoutMs}ms`)), timeoutMs)
+      })
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * 立即执行一轮检查
+ *
+ * 依次检查所有注册了健康检查函数的提供商下的账号；上一轮未结束时直接返回
+ */
+export async function runHealthChecks() {
+  if (checking) return
+  checking = true
+
+  try {
+    const { timeoutMs, requestIntervalMs } = getHealthCheckConfig()
+    let healthy = 0
+    let unhealthy = 0
+    let skipped = 0
+
+    for (const { owner, probe } of getProviderHealthProbes()) {
+      const accounts = getAccountsWithFiles(owner) as AccountEntry[]
+      for (const [index, { fileName }] of accounts.entries()) {
+        if (index > 0) {
+          await new Promise(resolve => setTimeout(resolve, requestIntervalMs))
+        }
+
+        const startedAt = Date.now()
+        try {
+          if (await withTimeout(probe(fileName), timeoutMs) === 'skipped') {
+            skipped += 1
+            continue
+          }
+          updateAccountState(fileName, { status: 'healthy', lastCheckedAt: Date.now(), latencyMs: Date.now() - startedAt })
+          healthy += 1
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          updateAccountState(fileName, {
+            status: 'unhealthy',
+            lastCheckedAt: Date.now(),
+            lastError: message,
+            latencyMs: Date.now() - startedAt
+          })
+          unhealthy += 1
+          console.warn(`⚠️ Health check failed for ${owner} account ${fileName}: ${message}`)
+        }
+      }
+    }
+
+    console.log(`✅ Account health check finished: ${healthy} healthy, ${unhealthy} unhealthy, ${skipped} skipped`)
+  } finally {
+    checking = false
+  }
+}
+
+/**
+ * 安排下一轮检查
+ */
+function scheduleNext(delayMs: number) {
+  checkTimer = setTimeout(async () => {
+    if (getHealthCheckConfig().enabled) {
+      await runHealthChecks()
+    }
+    scheduleNext(getHealthCheckConfig().intervalMs)
+  }, delayMs)
+  // 不阻止进程退出
+  checkTimer.unref?.()
+}
+
+/**
+ * 启动定期检查
+ *
+ * 首轮检查在启动后稍作延迟执行，重复调用时会重新安排
+ */
+export function startHealthChecks() {
+  stopHealthChecks()
+  scheduleNext(INITIAL_DELAY_MS)
+  console.log('🔍 Account health checks scheduled')
+}
+
+/**
+ * 停止定期检查
+ */
+export function stopHealthChecks() {
+  if (checkTimer) {
+    clearTimeout(checkTimer)
+    checkTimer = null
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * models.ts - 模型列表格式转换模块
+ *
+ * 本模块负责将 selector 中注册的模型元数据转换为各协议的模型对象：
+ * - OpenAI: { id, object: "model", created, owned_by }
+ * - Anthropic: { type: "model", id, display_name, created_at }
+ * - Gemini: { name: "models/{id}", displayName, inputTokenLimit, outputTokenLimit, supportedGenerationMethods }
+ *
+ * 同时提供三种协议各自的分页逻辑。
+ */
+
+import { getRegisteredModels } from './selector'
+
+// 已注册模型类型（getRegisteredModels 的元素）
+type RegisteredModel = ReturnType<typeof getRegisteredModels>[number]
+
+// Gemini 兼容端点支持的生成方法
+const GEMINI_GENERATION_METHODS = ['generateContent', 'streamGenerateContent', 'countTokens']
+
+/**
+ * 查找已注册的模型
+ * @param id 模型名称
+ * @returns 模型元数据，不存在时返回 null
+ */
+function findRegisteredModel(id: string): RegisteredModel | null {
+  return getRegisteredModels().find(model => model.id === id) ?? null
+}
+
+/**
+ * 转换为 OpenAI 模型对象
+ * @param model 模型元数据
+ */
+function toOpenAIModel(model: RegisteredModel) {
+  return {
+    id: model.id,
+    object: 'model',
+    created: Math.floor(model.created / 1000),
+    owned_by: model.owner
+  }
+}
+
+/**
+ * 转换为 Anthropic 模型对象
+ * @param model 模型元数据
+ */
+function toAnthropicModel(model: RegisteredModel) {
+  return {
+    type: 'model',
+    id: model.id,
+    display_name: model.displayName ?? model.id,
+    created_at: new Date(model.created).toISOString()
+  }
+}
+
+/**
+ * 转换为 Gemini 模型对象
+ * @param model 模型元数据
+ */
+function toGeminiModel(model: RegisteredModel) {
+  return {
+    name: `models/${model.id}`,
+    baseModelId: model.id,
+    version: '001',
+    displayName: model.displayName ?? model.id,
+    description: model.description ?? '',
+    inputTokenLimit: model.inputTokenLimit ?? 0,
+    outputTokenLimit: model.outputTokenLimit ?? 0,
+    supportedGenerationMethods: GEMINI_GENERATION_METHODS
+  }
+}
+
+/**
+ * 按 Anthropic 规则分页模型列表
+ *
+ * 支持 limit（默认 20，最大 1000）、after_id 与 before_id
+ *
+ * @param query 分页参数
+ * @returns Anthropic 模型列表响应
+ */
+function listAnthropicModels(query: { limit?: unknown, after_id?: unknown, before_id?: unknown }) {
+  const models = getRegisteredModels()
+  const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000)
+
+  let start = 0
+  let end = models.length
+  if (typeof query.after_id === 'string' && query.after_id) {
+    start = models.findIndex(model => model.id === query.after_id) + 1
+  }
+  if (typeof query.before_id === 'string' && query.before_id) {
+    const index = models.findIndex(model => model.id === query.before_id)
+    if (index !== -1) end = index
+  }
+
+  // before_id 取紧邻其前的一页，其余情况从起点向后取
+  const beforeMode = typeof query.before_id === 'string' && query.before_id
+  const page = beforeMode
+    ? models.slice(Math.max(start, end - limit), end)
+    : models.slice(start, Math.min(end, start + limit))
+  const hasMore = beforeMode
+    ? end - limit > start
+    : start + limit < end
+
+  return {
+    data: page.map(toAnthropicModel),
+    has_more: hasMore,
+    first_id: page[0]?.id ?? null,
+    last_id: page[page.length - 1]?.id ?? null
+  }
+}
+
+/**
+ * 按 Gemini 规则分页模型列表
+ *
+ * 支持 pageSize（默认 50，最大 1000）与 pageToken（上一页返回的 nextPageToken）
+ *
+ * @param query 分页参数
+ * @returns Gemini 模型列表响应
+ */
+function listGeminiModels(query: { pageSize?: unknown, pageToken?: unknown }) {
+  const models = getRegisteredModels()
+  const pageSize = Math.min(Math.max(Number(query.pageSize) || 50, 1), 1000)
+  const offset = Math.max(Number(query.pageToken) || 0, 0)
+  const page = models.slice(offset, offset + pageSize)
+  const next = offset + pageSize
+
+  return {
+    models: page.map(toGeminiModel),
+    // 只在还有下一页时包含该字段
+    ...(next < models.length ? { nextPageToken: String(next) } : {})
+  }
+}
+
+// 导出模型列表相关函数
+export {
+  findRegisteredModel,
+  toOpenAIModel,
+  toAnthropicModel,
+  toGeminiModel,
+  listAnthropicModels,
+  listGeminiModels
+}
@@ -5,9 +5,14 @@
  * 1. 支持邮箱和手机号两种登录方式
  * 2. 自动识别账号类型
  * 3. 获取并保存认证令牌
+ * 4. 标记令牌失效且无法重新登录的账号
+ *
+ * 登录失败时只有凭据被拒绝（账密缺失或错误）归类为 auth，
+ * 网络错误与上游错误状态（5xx、429 等）保留原始信息，由 failover.ts 按对应类型归类。
  *
  * 核心函数：
  * - loginDeepseekViaAccount(): 使用账号对象登录
+ * - markDeepseekAccountInvalid(): 标记账号失效并保存
  * - LoginWithPassword(): 使用用户名密码登录
  */
 
@@ -17,7 +22,9 @@ import { join } from 'path'
 // 导入账号管理函数
 import { getAccountsWithFiles } from '../../accounts'
 // 导入 DeepSeek 相关常量
-import { DEEPSEEK_BASE_HEADERS, DEEPSEEK_LOGIN_URL } from './const'
+import { DEEPSEEK_BASE_HEADERS, DEEPSEEK_LOGIN_PATH } from './const'
+import { deepseekUrl } from './config'
+import { createAuthError, createResponseError } from './failover'
 
 // DeepSeek 账号类型定义（仅账密）
 type DeepseekAccount = {
@@ -26,6 +33,7 @@ type DeepseekAccount = {
   token?: string // 认证令牌
   type?: string // 账号类型
   fileName?: string // 账号文件名
+  invalid?: boolean // 令牌已失效且无法重新登录（更换 token 后删除该字段即可恢复）
 }
 
 // 账号目录路径
@@ -135,7 +143,7 @@ const buildLoginPayload = (account: DeepseekAccount) => {
   const password = account.password?.trim() ?? ''
 
   if (!username || !password) {
-    throw new Error('账号缺少必要的登录信息（必须提供 username 和 password）')
+    throw createAuthError('账号缺少必要的登录信息（必须提供 username 和 password）')
   }
 
   // 自动识别：邮箱账号
@@ -150,7 +158,7 @@ const buildLoginPayload = (account: DeepseekAccount) => {
 
   // 自动识别：手机号账号
   if (!isMobile(username)) {
-    throw new Error('账号格式不正确（必须是邮箱或大陆手机号）')
+    throw createAuthError('账号格式不正确（必须是邮箱或大陆手机号）')
   }
 
   return {
@@ -167,6 +175,7 @@ const buildLoginPayload = (account: DeepseekAccount) => {
  */
 type DeepseekLoginResponse = {
   data?: {
+    biz_msg?: string
     biz_data?: {
       user?: {
         token?: string
@@ -180,7 +189,7 @@ type DeepseekLoginResponse = {
  * 从登录 API 响应中提取认证令牌
  * @param response 登录 API 响应对象
  * @returns 认证令牌字符串
- * @throws 如果响应格式不正确或缺少令牌则抛出错误
+ * @throws 如果响应格式不正确则抛出错误，缺少令牌（凭据被拒绝）时抛出 auth 类失败
  */
 const parseLoginResponse = async (response: Response) => {
   let data: DeepseekLoginResponse
@@ -199,13 +208,13 @@ const parseLoginResponse = async (response: Response) => {
     || data.data?.biz_data?.user == null
   ) {
     console.error('[login_deepseek_via_account] 登录响应格式错误:', data)
-    throw new Error('Account login failed: invalid response format')
+    throw createAuthError(`Account login failed: ${data?.data?.biz_msg || 'invalid response format'}`)
   }
 
   const token = data.data.biz_data.user?.token
   if (!token) {
     console.error('[login_deepseek_via_account] 登录响应中缺少 token:', data)
-    throw new Error('Account login failed: missing token')
+    throw createAuthError('Account login failed: missing token')
   }
 
   return token as string
@@ -216,28 +225,28 @@ const parseLoginResponse = async (response: Response) => {
  * 发送登录请求并保存获取的认证令牌
  * @param account DeepSeek 账号对象
  * @returns 认证令牌字符串
- * @throws 如果登录失败则抛出错误
+ * @throws 凭据被拒绝时抛出 auth 类失败，网络错误原样抛出，上游错误状态抛出携带状态码的错误
  */
 async function loginDeepseekViaAccount(account: DeepseekAccount) {
   const payload = buildLoginPayload(account)
 
   let response: Response
   try {
-    response = await fetch(DEEPSEEK_LOGIN_URL, {
+    response = await fetch(deepseekUrl(DEEPSEEK_LOGIN_PATH), {
       method: 'POST',
       headers: DEEPSEEK_BASE_HEADERS,
       body: JSON.stringify(payload)
     })
   } catch (error) {
     console.error('[login_deepseek_via_account] 登录请求异常:', error)
-    throw new Error('Account login failed: 请求异常')
+    throw error
   }
 
   if (!response.ok) {
     console.error(
       `[login_deepseek_via_account] 登录失败, status=${response.status}`
     )
-    throw new Error('Account login failed: status not ok')
+    throw await createResponseError('Account login failed', response, { login: true })
   }
 
   const token = await parseLoginResponse(response)
@@ -246,6 +255,17 @@ async function loginDeepseekViaAccount(account: DeepseekAccount) {
   return token
 }
 
+/**
+ * 标记账号失效
+ * 用于只有令牌、没有账密的账号在令牌失效后无法自动重新登录的情况，
+ * 标记会写入账号文件，重启后该账号仍不会被使用
+ * @param account DeepSeek 账号对象
+ */
+async function markDeepseekAccountInvalid(account: DeepseekAccount) {
+  account.invalid = true
+  await saveAccountToFile(account)
+}
+
 /**
  * 使用用户名和密码登录
  * 根据用户名格式（邮箱或手机号）自动选择登录方式
@@ -259,6 +279,6 @@ async function LoginWithPassword(username: string, password: string) {
 }
 
 // 导出登录相关函数
-export { LoginWithPassword, loginDeepseekViaAccount }
+export { LoginWithPassword, loginDeepseekViaAccount, markDeepseekAccountInvalid }
 // 导出类型定义
 export type { DeepseekAccount }
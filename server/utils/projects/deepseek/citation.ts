@@ -0,0 +1,150 @@
+/**
+ * citation.ts - DeepSeek 联网搜索引用处理
+ *
+ * 启用联网搜索时，DeepSeek 先返回搜索结果列表，再在正文中插入 [citation:N] 形式的引用标记
+ * （N 对应搜索结果的 cite_index）。本模块负责：
+ * 1. 解析上游搜索结果（标题、URL、摘要）
+ * 2. 按 config.yaml 中 projects.deepseek.search.citation_format 改写正文中的引用标记，
+ *    并返回改写后标记在文本中的位置，用于生成 url_citation 注解
+ *
+ * 引用格式支持占位符 {index}、{url}、{title}，为空字符串时直接移除标记。
+ *
+ * 核心函数：
+ * - parseSearchResults(): 解析上游搜索结果
+ * - createCitationRewriter(): 创建流式引用标记改写器
+ */
+
+import { getDeepseekConfig } from './config'
+
+/** 默认引用标记格式 */
+const DEFAULT_CITATION_FORMAT = '[{index}]'
+/** 上游引用标记前缀 */
+const CITATION_PREFIX = '[citation:'
+
+/**
+ * 搜索结果
+ */
+export type DeepseekSearchResult = {
+  /** 引用序号（正文中 [citation:N] 的 N），未被引用的结果可能为空 */
+  index?: number
+  url: string
+  title: string
+  /** 摘要 */
+  snippet?: string
+}
+
+/**
+ * 改写后的引用位置
+ */
+export type CitationSpan = {
+  /** 引用标记在本次输出文本中的起始位置 */
+  start: number
+  /** 引用标记在本次输出文本中的结束位置（不含） */
+  end: number
+  /** 被引用的搜索结果 */
+  result: DeepseekSearchResult
+}
+
+/**
+ * 解析上游搜索结果
+ *
+ * @param value - 事件值（搜索结果数组）
+ * @returns 有效的搜索结果（缺少 URL 的条目被忽略）
+ */
+export function parseSearchResults(value: unknown): DeepseekSearchResult[] {
+  if (!Array.isArray(value)) return []
+
+  const results: DeepseekSearchResult[] = []
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue
+    const raw = item as { url?: unknown, title?: unknown, snippet?: unknown, cite_index?: unknown }
+    if (typeof raw.url !== 'string' || !raw.url) continue
+
+    results.push({
+      ...(typeof raw.cite_index === 'number' ? { index: raw.cite_index } : {}),
+      url: raw.url,
+      title: typeof raw.title === 'string' ? raw.title : raw.url,
+      ...(typeof raw.snippet === 'string' && raw.snippet ? { snippet: raw.snippet } : {})
+    })
+  }
+  return results
+}
+
+/**
+ * 获取引用标记格式
+ */
+function getCitationFormat() {
+  return getDeepseekConfig().search?.citation_format ?? DEFAULT_CITATION_FORMAT
+}
+
+/**
+ * 按格式渲染引用标记
+ */
+function formatCitation(format: string, result: DeepseekSearchResult) {
+  return format
+    .replaceAll('{index}', String(result.index ?? ''))
+    .replaceAll('{url}', result.url)
+    .replaceAll('{title}', result.title)
+}
+
+/**
+ * 判断文本末尾是否为未完整的引用标记（需要等待后续内容）
+ */
+function isPartialMarker(tail: string) {
+  return CITATION_PREFIX.startsWith(tail) || /^\[citation:\d+$/.test(tail)
+}
+
+/**
+ * 创建流式引用标记改写器
+ *
+ * 引用标记可能被拆分在多个增量中，末尾疑似标记前缀的部分会暂存到下一次输出。
+ * 找不到对应搜索结果的标记会被移除。
+ *
+ * @param lookup - 按引用序号查找搜索结果
+ * @returns push 处理一段增量，flush 输出暂存的剩余内容
+ */
+export function createCitationRewriter(lookup: (index: number) => DeepseekSearchResult | undefined) {
+  const format = getCitationFormat()
+  let pending = ''
+
+  /**
+   * 改写完整的引用标记
+   */
+  const rewrite = (text: string) => {
+    const citations: CitationSpan[] = []
+    let output = ''
+    let last = 0
+
+    for (const match of text.matchAll(/\[citation:(\d+)\]/g)) {
+      output += text.slice(last, match.index)
+      last = match.index + match[0].length
+
+      const result = lookup(Number(match[1]))
+      if (!result) continue
+
+      const marker = formatCitation(format, result)
+      citations.push({ start: output.length, end: output.length + marker.length, result })
+      output += marker
+    }
+
+    return { text: output + text.slice(last), citations }
+  }
+
+  return {
+    push(text: string) {
+      const buffer = pending + text
+      const open = buffer.lastIndexOf('[')
+      if (open !== -1 && isPartialMarker(buffer.slice(open))) {
+        pending = buffer.slice(open)
+        return rewrite(buffer.slice(0, open))
+      }
+      pending = ''
+      return rewrite(buffer)
+    },
+    flush() {
+      const rest = pending
+      pending = ''
+      return rest
+    }
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * cleanup.ts - DeepSeek 上游会话清理
+ *
+ * 每次补全都会在账号的网页版历史中留下一个会话，长期使用后会堆积大量无用会话。
+ * 本模块按 config.yaml 中 projects.deepseek.session_cleanup.mode 清理这些会话：
+ * - keep: 保留（默认）
+ * - immediate: 请求结束后立即删除本次创建的会话
+ * - sweep: 后台定期列出各账号的会话，删除超过最小存活时间的会话
+ *
+ * 仍在会话复用缓存中的会话不会被删除；置顶的会话在定期清理时跳过。
+ * 所有列出/删除请求串行执行并限速，避免触发上游风控。
+ *
+ * 核心函数：
+ * - cleanupSessions(): 请求结束后按策略删除会话
+ * - discardSession(): 删除健康检查创建的会话（不受策略影响）
+ * - startSessionSweep(): 启动后台定期清理
+ */
+
+import { getAccountsWithFiles } from '../../accounts'
+import { DEEPSEEK_BASE_HEADERS, DEEPSEEK_DELETE_SESSION_PATH, DEEPSEEK_FETCH_SESSIONS_PATH } from './const'
+import { deepseekUrl, getDeepseekConfig } from './config'
+import { isSessionCached } from './session'
+
+/** 默认定期清理间隔（秒） */
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 3600
+/** 定期清理时会话的默认最小存活时间（秒），避免删除进行中的会话 */
+const DEFAULT_MIN_AGE_SECONDS = 600
+/** 相邻两次清理请求的默认间隔（毫秒） */
+const DEFAULT_REQUEST_INTERVAL_MS = 500
+/** 每页列出的会话数 */
+const FETCH_PAGE_SIZE = 50
+
+/**
+ * 会话清理策略
+ */
+export type SessionCleanupMode = 'keep' | 'immediate' | 'sweep'
+
+/**
+ * 会话列表中的条目
+ */
+type DeepseekChatSession = {
+  id: string
+  pinned?: boolean
+  /** 最后更新时间（Unix 秒） */
+  updated_at?: number
+}
+
+// 清理请求队列（串行执行，保证限速）
+let queue: Promise<void> = Promise.resolve()
+// 定期清理定时器
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+// 是否有定期清理正在执行
+let sweeping = false
+
+/**
+ * 获取会话清理配置
+ */
+function getSessionCleanupConfig() {
+  const config = getDeepseekConfig().session_cleanup
+  const mode = config?.mode === 'immediate' || config?.mode === 'sweep' ? config.mode : 'keep'
+  return {
+    mode: mode as SessionCleanupMode,
+    sweepIntervalMs: (config?.sweep_interval_seconds ?? DEFAULT_SWEEP_INTERVAL_SECONDS) * 1000,
+    minAgeSeconds: config?.min_age_seconds ?? DEFAULT_MIN_AGE_SECONDS,
+    requestIntervalMs: config?.request_interval_ms ?? DEFAULT_REQUEST_INTERVAL_MS
+  }
+}
+
+/**
+ * 在限速队列中执行清理请求
+ *
+ * 每个请求结束后等待 request_interval_ms 再执行下一个
+ */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(async () => {
+    try {
+      return await task()
+    } finally {
+      await new Promise(resolve => setTimeout(resolve, getSessionCleanupConfig().requestIntervalMs))
+    }
+  })
+  queue = run.then(() => undefined, () => undefined)
+  return run
+}
+
+/**
+ * 构建清理请求头
+ */
+function getCleanupHeaders(token: string) {
+  return {
+    ...DEEPSEEK_BASE_HEADERS,
+    authorization: `Bearer ${token}`
+  }
+}
+
+/**
+ * 删除单个会话
+ *
+ * @param token - Bearer Token
+ * @param sessionId - chat_session_id
+ * @throws 请求失败时抛出错误
+ */
+async function deleteSession(token: string, sessionId: string) {
+  const response = await fetch(deepseekUrl(DEEPSEEK_DELETE_SESSION_PATH), {
+    method: 'POST',
+    headers: getCleanupHeaders(token),
+    body: JSON.stringify({ chat_session_id: sessionId })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Delete session failed: ${response.status}`)
+  }
+
+  const data = await response.json() as { code?: number, msg?: string }
+  if (data?.code !== 0) {
+    throw new Error(`Invalid DeepSeek delete session response: ${data?.msg || 'unknown error'}`)
+  }
+}
+
+/**
+ * 列出一页会话（按更新时间倒序）
+ *
+ * @param token - Bearer Token
+ * @param cursor - 上一页最后一个会话的更新时间
+ */
+async function fetchSessionPage(token: string, cursor?: number) {
+  const params = new URLSearchParams({ count: String(FETCH_PAGE_SIZE) })
+  if (cursor !== undefined) {
+    params.set('lte_cursor.updated_at', String(cursor))
+  }
+
+  const response = await fetch(`${deepseekUrl(DEEPSEEK_FETCH_SESSIONS_PATH)}?${params}`, {
+    headers: getCleanupHeaders(token)
+  })
+  if (!response.ok) {
+    throw new Error(`Fetch sessions failed: ${response.status}`)
+  }
+
+  const data = await response.json() as {
+    code?: number
+    data?: { biz_data?: { chat_sessions?: DeepseekChatSession[], has_more?: boolean } }
+  }
+  if (data?.code !== 0) {
+    throw new Error('Invalid DeepSeek fetch sessions response')
+  }
+
+  return {
+    sessions: data?.data?.biz_data?.chat_sessions ?? [],
+    hasMore: data?.data?.biz_data?.has_more ?? false
+  }
+}
+
+/**
+ * 删除一组会话并记录日志
+ *
+ * @returns 成功删除的数量
+ */
+async function deleteSessions(token: string, sessionIds: string[], fileName: string) {
+  let deleted = 0
+  for (const sessionId of sessionIds) {
+    try {
+      await enqueue(() => deleteSession(token, sessionId))
+      deleted += 1
+    } catch (error) {
+      console.warn(`⚠️ Failed to delete DeepSeek session ${sessionId} (${fileName}): ${(error as Error).message}`)
+    }
+  }
+  return deleted
+}
+
+/**
+ * 请求结束后按策略删除会话
+ *
+ * 仅在 immediate 模式下生效；仍在会话复用缓存中的会话保留，
+ * 供后续轮次继续使用（过期后由定期清理处理）。
+ * 删除在后台执行，不阻塞调用方。
+ *
+ * @param token - Bearer Token
+ * @param sessionIds - 本次请求创建或使用的会话 ID
+ * @param fileName - 账号文件名（用于日志）
+ */
+export function cleanupSessions(token: string, sessionIds: string[], fileName: string) {
+  if (getSessionCleanupConfig().mode !== 'immediate') {
+    return
+  }
+
+  const targets = [...new Set(sessionIds)].filter(sessionId => !isSessionCached(sessionId))
+  if (!targets.length) {
+    return
+  }
+
+  void deleteSessions(token, targets, fileName).then((deleted) => {
+    if (deleted) {
+      console.log(`✅ Deleted ${deleted} DeepSeek session(s) for ${fileName}`)
+    }
+  })
+}
+
+/**
+ * 删除健康检查创建的会话
+ *
+ * 这类会话没有任何内容，无论清理策略如何都直接删除（在后台限速执行）
+ *
+ * @param token - Bearer Token
+ * @param sessionId - chat_session_id
+ * @param fileName - 账号文件名（用于日志）
+ */
+export function discardSession(token: string, sessionId: string, fileName: string) {
+  void deleteSessions(token, [sessionId], fileName)
+}
+
+/**
+ * 清理单个账号的历史会话
+ *
+ * 跳过置顶、复用缓存中以及更新时间晚于 min_age_seconds 的会话
+ */
+async function sweepAccount(token: string, fileName: string, minAgeSeconds: number) {
+  const cutoff = Date.now() / 1000 - minAgeSeconds
+  const targets: string[] = []
+  let cursor: number | undefined
+
+  while (true) {
+    const page = await enqueue(() => fetchSessionPage(token, cursor))
+    for (const session of page.sessions) {
+      if (session.pinned || isSessionCached(session.id)) continue
+      if (session.updated_at === undefined || session.updated_at > cutoff) continue
+      targets.push(session.id)
+    }
+
+    const last = page.sessions[page.sessions.length - 1]?.updated_at
+    // 游标未前进时停止，避免死循环
+    if (!page.hasMore || last === undefined || last === cursor) break
+    cursor = last
+  }
+
+  return await deleteSessions(token, [...new Set(targets)], fileName)
+}
+
+/**
+ * 执行一次定期清理
+ *
+ * 依次处理所有已有 token 且未失效的 DeepSeek 账号（不会为清理而登录）
+ */
+async function runSweep() {
+  if (sweeping) return
+  sweeping = true
+
+  try {
+    const { minAgeSeconds } = getSessionCleanupConfig()
+    const accounts = getAccountsWithFiles('deepseek') as Array<{ fileName: string, data: { token?: string, invalid?: boolean } }>
+
+    for (const account of accounts) {
+      if (!account.data.token || account.data.invalid) continue
+      try {
+        const deleted = await sweepAccount(account.data.token, account.fileName, minAgeSeconds)
+        console.log(`✅ DeepSeek session sweep for ${account.fileName}: deleted ${deleted} session(s)`)
+      } catch (error) {
+        console.warn(`⚠️ DeepSeek session sweep failed for ${account.fileName}: ${(error as Error).message}`)
+      }
+    }
+  } finally {
+    sweeping = false
+  }
+}
+
+/**
+ * 启动后台定期清理
+ *
+ * 仅在 sweep 模式下生效，重复调用时会重新按当前配置启动
+ */
+export function startSessionSweep() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer)
+    sweepTimer = null
+  }
+
+  const config = getSessionCleanupConfig()
+  if (config.mode !== 'sweep') {
+    return
+  }
+
+  sweepTimer = setInterval(() => void runSweep(), config.sweepIntervalMs)
+  // 不阻止进程退出
+  sweepTimer.unref?.()
+  console.log(`🔍 DeepSeek session sweep scheduled every ${config.sweepIntervalMs / 1000}s`)
+}
@@ -0,0 +1,111 @@
+/**
+ * config.ts - DeepSeek 项目配置
+ *
+ * 读取 config.yaml 中 projects.deepseek 下的配置并提供默认值。
+ *
+ * 配置项：
+ * - base_url: API 基础地址，默认 https://chat.deepseek.com（可指向本地 stub 服务用于测试）
+ * - upload: 文件上传后的状态轮询与 URL 下载限制配置
+ * - history_offload: 超长 prompt 的历史转存配置
+ * - session_reuse: 多轮对话的上游会话复用配置
+ * - session_cleanup: 上游会话清理策略
+ * - search: 联网搜索引用标记格式
+ * - failover: 首个 token 前失败时的跨账号重试配置
+ * - cooldown: 上游错误归类表与各类失败的账号冷却策略
+ */
+
+import { getConfig } from '../../config'
+import { DEEPSEEK_DEFAULT_BASE_URL } from './const'
+import type { CooldownPolicy } from './cooldown'
+import type { FailureKind } from './failover'
+
+/**
+ * DeepSeek 项目配置类型
+ */
+export type DeepseekConfig = {
+  /** API 基础地址 */
+  base_url?: string
+  /** 文件上传配置 */
+  upload?: {
+    /** 状态轮询间隔（毫秒） */
+    poll_interval_ms?: number
+    /** 等待文件解析完成的最长时间（毫秒） */
+    poll_timeout_ms?: number
+    /** 下载 URL 来源图片/文档的超时（毫秒） */
+    download_timeout_ms?: number
+    /** 下载的单个文件最大字节数 */
+    max_download_bytes?: number
+    /** 是否允许下载指向内网、回环等地址的 URL（默认不允许） */
+    allow_private_urls?: boolean
+  }
+  /** 超长 prompt 历史转存为附件的配置 */
+  history_offload?: {
+    /** prompt token 数超过该值时转存较早的历史（0 表示关闭） */
+    threshold_tokens?: number
+    /** 保留在 prompt 中的最近轮数（以用户消息划分） */
+    keep_recent_turns?: number
+  }
+  /** 多轮对话会话复用配置 */
+  session_reuse?: {
+    /** 是否启用（默认启用） */
+    enabled?: boolean
+    /** 缓存有效期（秒） */
+    ttl_seconds?: number
+    /** 最多缓存的会话数 */
+    max_entries?: number
+  }
+  /** 上游会话清理配置 */
+  session_cleanup?: {
+    /** 清理策略：keep 保留（默认）、immediate 请求结束后删除、sweep 后台定期删除 */
+    mode?: 'keep' | 'immediate' | 'sweep'
+    /** 定期清理间隔（秒） */
+    sweep_interval_seconds?: number
+    /** 定期清理时只删除最后更新早于该时长的会话（秒） */
+    min_age_seconds?: number
+    /** 相邻两次列出/删除请求的间隔（毫秒） */
+    request_interval_ms?: number
+  }
+  /** 联网搜索配置 */
+  search?: {
+    /** 正文引用标记格式，支持 {index}、{url}、{title} 占位符，空字符串表示移除标记 */
+    citation_format?: string
+  }
+  /** 跨账号故障切换配置 */
+  failover?: {
+    /** 最大尝试次数（包含首次请求，1 表示不重试） */
+    max_attempts?: number
+    /** 首次重试前的退避间隔（毫秒），之后每次翻倍 */
+    backoff_ms?: number
+    /** 最大退避间隔（毫秒） */
+    max_backoff_ms?: number
+  }
+  /** 上游错误归类与账号冷却配置 */
+  cooldown?: {
+    /** 失败类型 -> 冷却策略（跳过秒数、relogin 或 disable） */
+    policies?: Partial<Record<FailureKind, CooldownPolicy>>
+    /** 业务错误码（code/biz_code）-> 失败类型 */
+    codes?: Record<string, FailureKind>
+    /** 错误信息正则（不区分大小写）-> 失败类型 */
+    messages?: Record<string, FailureKind>
+  }
+}
+
+/**
+ * 获取 DeepSeek 项目配置
+ *
+ * 未配置时返回空对象
+ */
+export function getDeepseekConfig(): DeepseekConfig {
+  return (getConfig()?.projects?.deepseek ?? {}) as DeepseekConfig
+}
+
+/**
+ * 拼接 DeepSeek API 地址
+ *
+ * @param path - API 路径（如 /api/v0/chat/completion）
+ * @returns 完整 URL
+ */
+export function deepseekUrl(path: string) {
+  const base = getDeepseekConfig().base_url || DEEPSEEK_DEFAULT_BASE_URL
+  return `${base.replace(/\/+$/, '')}${path}`
+}
@@ -2,21 +2,33 @@
  * const.ts - DeepSeek API 常量定义
  *
  * 本模块定义了 DeepSeek 网页版 API 的常量，包括：
- * - API 端点 URL
+ * - API 端点路径
  * - 请求头配置
- * - 支持的模型列表
+ * - 支持的模型列表及描述信息
  */
 
+import type { ModelInfo } from '../../selector'
+
 // DeepSeek API 主机地址
 export const DEEPSEEK_HOST = 'chat.deepseek.com'
-// DeepSeek 用户登录 API 地址
-export const DEEPSEEK_LOGIN_URL = `https://${DEEPSEEK_HOST}/api/v0/users/login`
-// DeepSeek 创建会话 API 地址
-export const DEEPSEEK_CREATE_SESSION_URL = `https://${DEEPSEEK_HOST}/api/v0/chat_session/create`
-// DeepSeek 创建 PoW 挑战 API 地址
-export const DEEPSEEK_CREATE_POW_URL = `https://${DEEPSEEK_HOST}/api/v0/chat/create_pow_challenge`
-// DeepSeek 聊天补全 API 地址
-export const DEEPSEEK_COMPLETION_URL = `https://${DEEPSEEK_HOST}/api/v0/chat/completion`
+// DeepSeek API 默认基础地址（可通过 projects.deepseek.base_url 覆盖）
+export const DEEPSEEK_DEFAULT_BASE_URL = `https://${DEEPSEEK_HOST}`
+// DeepSeek 用户登录 API 路径
+export const DEEPSEEK_LOGIN_PATH = '/api/v0/users/login'
+// DeepSeek 创建会话 API 路径
+export const DEEPSEEK_CREATE_SESSION_PATH = '/api/v0/chat_session/create'
+// DeepSeek 删除会话 API 路径
+export const DEEPSEEK_DELETE_SESSION_PATH = '/api/v0/chat_session/delete'
+// DeepSeek 会话列表 API 路径
+export const DEEPSEEK_FETCH_SESSIONS_PATH = '/api/v0/chat_session/fetch_page'
+// DeepSeek 创建 PoW 挑战 API 路径
+export const DEEPSEEK_CREATE_POW_PATH = '/api/v0/chat/create_pow_challenge'
+// DeepSeek 聊天补全 API 路径
+export const DEEPSEEK_COMPLETION_PATH = '/api/v0/chat/completion'
+// DeepSeek 文件上传 API 路径
+export const DEEPSEEK_UPLOAD_FILE_PATH = '/api/v0/file/upload_file'
+// DeepSeek 文件状态查询 API 路径
+export const DEEPSEEK_FETCH_FILES_PATH = '/api/v0/file/fetch_files'
 // DeepSeek API 基础请求头
 export const DEEPSEEK_BASE_HEADERS = {
   'Host': 'chat.deepseek.com',
@@ -36,3 +48,30 @@ export const DEEPSEEK_MODELS = [
   'deepseek-chat-search',
   'deepseek-reasoning-search'
 ]
+// DeepSeek 模型描述信息（用于模型列表端点）
+export const DEEPSEEK_MODEL_INFO: Record<string, ModelInfo> = {
+  'deepseek-chat': {
+    displayName: 'DeepSeek Chat',
+    description: 'DeepSeek web chat model',
+    inputTokenLimit: 131072,
+    outputTokenLimit: 8192
+  },
+  'deepseek-reasoning': {
+    displayName: 'DeepSeek Reasoning',
+    description: 'DeepSeek web chat model with deep thinking',
+    inputTokenLimit: 131072,
+    outputTokenLimit: 65536
+  },
+  'deepseek-chat-search': {
+    displayName: 'DeepSeek Chat (Search)',
+    description: 'DeepSeek web chat model with web search',
+    inputTokenLimit: 131072,
+    outputTokenLimit: 8192
+  },
+  'deepseek-reasoning-search': {
+    displayName: 'DeepSeek Reasoning (Search)',
+    description: 'DeepSeek web chat model with deep thinking and web search',
+    inputTokenLimit: 131072,
+    outputTokenLimit: 65536
+  }
+}
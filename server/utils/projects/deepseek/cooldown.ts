@@ -0,0 +1,105 @@
+/**
+ * cooldown.ts - DeepSeek 账号失败冷却策略
+ *
+ * 账号请求失败后，按失败类型（见 failover.ts）决定该账号多久之后才能再次被选择：
+ * - upstream: 上游临时 5xx，短暂跳过
+ * - network: 网络错误，短暂跳过
+ * - rate_limit: 限流，较长时间跳过（上游返回重置提示时以提示为准）
+ * - auth: 令牌失效且重新登录未能恢复，停用直到重新登录（由后台健康检查重新登录成功后恢复）
+ * - banned: 账号被封禁，永久停用（写入账号文件）
+ *
+ * 策略表可在 config.yaml 的 projects.deepseek.cooldown.policies 中覆盖，
+ * 取值为跳过秒数、relogin（停用直到重新登录）或 disable（永久停用）。
+ * 永久停用只依据上游请求（补全、会话、上传等）的响应本身报告的失败，
+ * 登录失败或网络错误即使归类到 disable 策略，也只停用到重新登录，不写入账号文件。
+ *
+ * 核心函数：
+ * - applyCooldown(): 按失败类型对账号执行冷却策略
+ */
+
+import { getAccountsWithFiles } from '../../accounts'
+import { disableAccount, skipAccount } from '../../selector'
+import { markDeepseekAccountInvalid, type DeepseekAccount } from './auth'
+import { getDeepseekConfig } from './config'
+import { classifyFailure, getUpstreamFailure, type FailureKind } from './failover'
+
+/**
+ * 冷却策略：跳过秒数、停用直到重新登录、永久停用
+ */
+export type CooldownPolicy = number | 'relogin' | 'disable'
+
+/** 默认冷却策略表 */
+const DEFAULT_POLICIES: Record<FailureKind, CooldownPolicy> = {
+  upstream: 30,
+  network: 10,
+  rate_limit: 300,
+  auth: 'relogin',
+  banned: 'disable'
+}
+
+/**
+ * 获取失败类型对应的冷却策略
+ */
+function getCooldownPolicy(kind: FailureKind): CooldownPolicy {
+  const policy = getDeepseekConfig().cooldown?.policies?.[kind]
+  if (policy === 'relogin' || policy === 'disable') return policy
+  if (typeof policy === 'number' && policy >= 0) return policy
+  return DEFAULT_POLICIES[kind]
+}
+
+/**
+ * 永久停用账号并写入账号文件
+ */
+async function disableAccountPermanently(fileName: string) {
+  disableAccount(fileName)
+
+  const accountEntries = getAccountsWithFiles('deepseek') as Array<{ fileName: string, data: DeepseekAccount }>
+  const account = accountEntries.find(entry => entry.fileName === fileName)?.data
+  if (account) {
+    account.fileName = fileName
+    await markDeepseekAccountInvalid(account)
+  }
+}
+
+/**
+ * 判断失败是否由上游请求的响应本身报告（而非登录失败或网络错误）
+ */
+function isResponseFailure(error: unknown) {
+  const failure = getUpstreamFailure(error)
+  return failure !== null && !failure.login
+}
+
+/**
+ * 按失败类型对账号执行冷却策略
+ *
+ * @param model - 请求的模型（跳过只对该模型生效，停用对所有模型生效）
+ * @param fileName - 账号文件名
+ * @param error - 捕获的错误
+ * @returns 失败类型，与账号无关的失败返回 null（不做处理）
+ */
+export function applyCooldown(model: string, fileName: string, error: unknown) {
+  const kind = classifyFailure(error)
+  if (!kind) {
+    return null
+  }
+
+  const policy = getCooldownPolicy(kind)
+  if (policy === 'relogin') {
+    disableAccount(fileName)
+    console.warn(`⚠️ DeepSeek account ${fileName} disabled until re-login (${kind})`)
+  } else if (policy === 'disable' && !isResponseFailure(error)) {
+    disableAccount(fileName)
+    console.warn(`⚠️ DeepSeek account ${fileName} disabled until re-login (${kind}, not reported by a DeepSeek response)`)
+  } else if (policy === 'disable') {
+    disableAccountPermanently(fileName).catch((error) => {
+      console.error(`❌ Failed to persist disabled DeepSeek account ${fileName}:`, error)
+    })
+    console.warn(`⚠️ DeepSeek account ${fileName} disabled permanently (${kind})`)
+  } else {
+    // 上游返回重置提示时以提示为准
+    const durationMs = getUpstreamFailure(error)?.retryAfterMs ?? policy * 1000
+    skipAccount(model, fileName, durationMs)
+    console.warn(`⚠️ DeepSeek account ${fileName} cooling down for ${Math.ceil(durationMs / 1000)}s (${kind})`)
+  }
+  return kind
+}
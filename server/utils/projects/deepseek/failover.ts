@@ -0,0 +1,274 @@
+/**
+ * failover.ts - DeepSeek 跨账号故障切换
+ *
+ * 首个 token 返回给客户端之前（登录、上传、创建会话、PoW、补全请求），
+ * 任何账号相关的失败都可以换一个账号重试而不被客户端察觉。本模块负责：
+ * 1. 将失败归类为 auth（鉴权）、rate_limit（限流）、upstream（上游 5xx）、network（网络）、
+ *    banned（账号被封禁）
+ * 2. 提供 config.yaml 中 projects.deepseek.failover 的最大尝试次数与退避间隔
+ *
+ * 归类依据 HTTP 状态码与响应体（包括 SSE 流中的错误事件）的 code/biz_code/msg 字段，
+ * 业务码与错误信息的归类表可在 projects.deepseek.cooldown 中配置（按类型采取的冷却策略见 cooldown.ts）。
+ *
+ * 无法归类的失败（如上游其他 4xx、未列入归类表的业务错误码、请求参数错误、文件解析失败）
+ * 与账号无关，不会重试，也不会使账号进入冷却。
+ *
+ * 核心函数：
+ * - createUpstreamError() / createAuthError(): 构建携带上游失败信息的错误
+ * - createResponseError(): 根据上游错误响应（状态码、重置提示、响应体）构建错误
+ * - createBizError(): 根据 DeepSeek 业务错误（code 非 0）构建错误
+ * - classifyFailure(): 归类一次失败
+ * - getFailoverConfig() / getFailoverDelay(): 故障切换配置与退避间隔
+ * - createExhaustedError(): 构建所有尝试均失败时返回给客户端的错误
+ */
+
+import { getDeepseekConfig } from './config'
+
+/** 默认最大尝试次数（包含首次请求） */
+const DEFAULT_MAX_ATTEMPTS = 3
+/** 默认首次退避间隔（毫秒） */
+const DEFAULT_BACKOFF_MS = 500
+/** 默认最大退避间隔（毫秒） */
+const DEFAULT_MAX_BACKOFF_MS = 5000
+/** 默认的业务错误码归类（令牌缺失或失效，HTTP 状态为 200） */
+const DEFAULT_ERROR_CODES: Record<string, FailureKind> = {
+  40001: 'auth',
+  40002: 'auth',
+  40003: 'auth'
+}
+/** 默认的错误信息归类（正则，不区分大小写） */
+const DEFAULT_ERROR_MESSAGES: Record<string, FailureKind> = {
+  'banned|suspended|封禁|封号': 'banned',
+  'rate limit|too many requests|频繁': 'rate_limit'
+}
+
+/**
+ * 失败类型
+ */
+export type FailureKind = 'auth' | 'rate_limit' | 'upstream' | 'network' | 'banned'
+
+/**
+ * 上游失败信息
+ */
+export type UpstreamFailure = {
+  /** 上游 HTTP 状态码 */
+  status?: number
+  /** 响应体中的 code（为 0 时取 data.biz_code） */
+  code?: number
+  /** 响应体中的 msg（或 data.biz_msg） */
+  msg?: string
+  /** 上游提示的重置等待时间（毫秒） */
+  retryAfterMs?: number
+  /** 失败来自登录请求（不据此永久停用账号） */
+  login?: boolean
+}
+
+/**
+ * DeepSeek 响应体中的错误字段
+ */
+type DeepseekErrorBody = {
+  code?: number
+  msg?: string
+  data?: { biz_code?: number, biz_msg?: string } | null
+} | null | undefined
+
+/**
+ * 获取故障切换配置
+ */
+export function getFailoverConfig() {
+  const config = getDeepseekConfig().failover
+  return {
+    maxAttempts: Math.max(1, config?.max_attempts ?? DEFAULT_MAX_ATTEMPTS),
+    backoffMs: Math.max(0, config?.backoff_ms ?? DEFAULT_BACKOFF_MS),
+    maxBackoffMs: Math.max(0, config?.max_backoff_ms ?? DEFAULT_MAX_BACKOFF_MS)
+  }
+}
+
+/**
+ * 计算第 attempt 次失败后的退避间隔（指数增长，不超过最大值）
+ *
+ * @param attempt - 已失败的次数（从 1 开始）
+ */
+export function getFailoverDelay(attempt: number) {
+  const { backoffMs, maxBackoffMs } = getFailoverConfig()
+  return Math.min(maxBackoffMs, backoffMs * 2 ** (attempt - 1))
+}
+
+/**
+ * 构建上游请求失败的错误
+ *
+ * 返回给客户端时统一为 502，上游失败信息保存在 data.upstream 中用于归类
+ *
+ * @param message - 错误信息
+ * @param failure - 上游失败信息
+ */
+export function createUpstreamError(message: string, failure: UpstreamFailure = {}) {
+  return createError({
+    statusCode: 502,
+    statusMessage: message,
+    data: { upstream: failure }
+  })
+}
+
+/**
+ * 构建凭据被拒绝的错误（归类为 auth）
+ *
+ * @param message - 错误信息
+ */
+export function createAuthError(message: string) {
+  return createUpstreamError(message, { status: 401, login: true })
+}
+
+/**
+ * 读取响应体中的错误字段
+ */
+function toUpstreamFailure(body: DeepseekErrorBody): UpstreamFailure {
+  const code = body?.code || body?.data?.biz_code
+  const msg = body?.msg || body?.data?.biz_msg
+  return {
+    ...(typeof code === 'number' ? { code } : {}),
+    ...(typeof msg === 'string' && msg ? { msg } : {})
+  }
+}
+
+/**
+ * 解析上游的重置提示（Retry-After 或 x-ratelimit-reset 响应头）
+ *
+ * @returns 需要等待的毫秒数，没有提示时返回 undefined
+ */
+function parseRetryAfter(headers: Headers) {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+
+  const reset = Number(headers.get('x-ratelimit-reset'))
+  if (Number.isFinite(reset) && reset > 0) {
+    // 大于 1e9 时视为 Unix 时间戳（秒），否则为剩余秒数
+    return Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000)
+  }
+  return undefined
+}
+
+/**
+ * 根据上游错误响应构建错误
+ *
+ * 读取状态码、重置提示与响应体中的 code/msg（响应体不是 JSON 时忽略）
+ *
+ * @param message - 错误信息（会附加状态码与上游 msg）
+ * @param response - 状态码非 2xx 的上游响应
+ * @param options - login: 响应来自登录请求
+ */
+export async function createResponseError(message: string, response: Response, options: { login?: boolean } = {}) {
+  const body = await response.json().catch(() => null) as DeepseekErrorBody
+  const retryAfterMs = parseRetryAfter(response.headers)
+  const failure: UpstreamFailure = {
+    status: response.status,
+    ...toUpstreamFailure(body),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    ...(options.login ? { login: true } : {})
+  }
+  return createUpstreamError(`${message}: ${response.status}${failure.msg ? ` ${failure.msg}` : ''}`, failure)
+}
+
+/**
+ * 根据 DeepSeek 业务错误构建错误（HTTP 状态正常但响应体 code 非 0，或 SSE 流中的错误事件）
+ *
+ * @param message - 错误信息（会附加上游 msg）
+ * @param body - 响应体或错误事件
+ */
+export function createBizError(message: string, body: DeepseekErrorBody) {
+  const failure = toUpstreamFailure(body)
+  return createUpstreamError(`${message}: ${failure.msg || 'unknown error'}`, failure)
+}
+
+/**
+ * 获取错误中的上游失败信息
+ *
+ * @returns 上游失败信息，非上游失败时返回 null
+ */
+export function getUpstreamFailure(error: unknown): UpstreamFailure | null {
+  const upstream = (error as { data?: { upstream?: unknown } } | null)?.data?.upstream
+  return upstream && typeof upstream === 'object' ? upstream as UpstreamFailure : null
+}
+
+/**
+ * 判断是否为网络错误（fetch 失败、连接被重置等）
+ */
+function isNetworkError(error: unknown) {
+  if (!(error instanceof Error)) return false
+  if (error.name === 'TypeError' && error.message === 'fetch failed') return true
+  const code = (error.cause as { code?: unknown } | undefined)?.code
+  return typeof code === 'string' && /^(?:E[A-Z]+|UND_ERR_[A-Z_]+)$/.test(code)
+}
+
+/**
+ * 按配置的归类表匹配业务码与错误信息
+ */
+function matchFailureTable(failure: UpstreamFailure): FailureKind | null {
+  const config = getDeepseekConfig().cooldown
+  const codes = { ...DEFAULT_ERROR_CODES, ...config?.codes }
+  if (failure.code !== undefined && codes[failure.code]) {
+    return codes[failure.code]!
+  }
+
+  if (failure.msg) {
+    const messages = { ...DEFAULT_ERROR_MESSAGES, ...config?.messages }
+    for (const [pattern, kind] of Object.entries(messages)) {
+      try {
+        if (new RegExp(pattern, 'i').test(failure.msg)) return kind
+      } catch {
+        // 忽略无效的正则
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 归类一次失败
+ *
+ * 依次按网络错误、业务码/错误信息归类表、HTTP 状态码判断；
+ * 状态码只有 401/403（auth）、429（rate_limit）与 5xx（upstream）参与归类
+ *
+ * @param error - 捕获的错误
+ * @returns 失败类型，与账号无关、不应重试的失败返回 null
+ */
+export function classifyFailure(error: unknown): FailureKind | null {
+  if (isNetworkError(error)) {
+    return 'network'
+  }
+
+  const failure = getUpstreamFailure(error)
+  if (!failure) {
+    return null
+  }
+
+  const matched = matchFailureTable(failure)
+  if (matched) return matched
+  if (failure.status === 401 || failure.status === 403) return 'auth'
+  if (failure.status === 429) return 'rate_limit'
+  // 只有上游 5xx 视为临时失败，其他 4xx 多为请求本身的问题，直接返回给客户端
+  if (failure.status !== undefined && failure.status >= 500) return 'upstream'
+  return null
+}
+
+/**
+ * 构建所有尝试均失败（或已无可用账号）时的错误
+ *
+ * 最后一次失败为限流时返回 429，否则返回 503
+ *
+ * @param attempts - 已尝试次数
+ * @param lastError - 最后一次失败的错误
+ */
+export function createExhaustedError(attempts: number, lastError: unknown) {
+  const kind = classifyFailure(lastError)
+  const message = lastError instanceof Error ? lastError.message : String(lastError)
+  return createError({
+    statusCode: kind === 'rate_limit' ? 429 : 503,
+    statusMessage: `DeepSeek request failed after ${attempts} attempt(s), last ${kind ?? 'error'}: ${message}`
+  })
+}
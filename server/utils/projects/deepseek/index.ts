@@ -5,28 +5,63 @@
  * 1. 账号选择与令牌管理
  * 2. 会话创建
  * 3. PoW（工作量证明）挑战计算
- * 4. 流式对话补全
- * 5. OpenAI 格式 SSE 输出
+ * 4. 图片/文档上传与解析状态轮询（超长历史同样转存为附件）
+ * 5. 流式对话补全（多轮对话命中缓存时复用上游会话）
+ * 6. OpenAI 格式 SSE 输出
+ * 7. 按配置清理上游会话
+ * 8. 首个 token 返回前失败时切换账号重试
+ * 9. 账号健康检查（令牌有效性与会话创建）
  *
  * 主要参考: deepseek2api/app.py
  */
 
+import { randomUUID } from 'crypto'
 import { readFile } from 'fs/promises'
 import { resolve } from 'path'
 import { fileURLToPath } from 'url'
-import { MiddleContentToPrompt, type MiddleContent } from '../../converter'
+import { findUnsupportedContentPart, MiddleContentToPrompt, type MiddleContent, type MiddleToolCall } from '../../converter'
 import { getAccountsWithFiles } from '../../accounts'
-import { registerProviderHandler } from '../../handler'
-import { clearSkip, registerAccount, releaseAccount, selectAccount, skipAccount } from '../../selector'
+import { registerProviderHandler, registerProviderHealthProbe, registerProviderTokenCounter } from '../../handler'
+import { toOpenAIError } from '../../errors'
+import { createStopSequenceMatcher } from '../../stopsequence'
+import {
+  buildStructuredRetryPrompt,
+  getStructuredOutputMaxAttempts,
+  resolveStructuredOutput,
+  validateStructuredOutput,
+  type StructuredOutputSpec
+} from '../../structured'
+import { createToolCallParser, isToolCallingEnabled, type ToolCallSegment } from '../../toolcall'
+import {
+  acquireAccountByName,
+  clearSkip,
+  disableAccount,
+  enableAccount,
+  isAccountDisabled,
+  registerAccount,
+  registerModelInfo,
+  releaseAccount,
+  selectAccount
+} from '../../selector'
 import {
   DEEPSEEK_BASE_HEADERS,
-  DEEPSEEK_COMPLETION_URL,
-  DEEPSEEK_CREATE_POW_URL,
-  DEEPSEEK_CREATE_SESSION_URL,
-  DEEPSEEK_MODELS
+  DEEPSEEK_COMPLETION_PATH,
+  DEEPSEEK_CREATE_POW_PATH,
+  DEEPSEEK_CREATE_SESSION_PATH,
+  DEEPSEEK_FETCH_FILES_PATH,
+  DEEPSEEK_MODEL_INFO,
+  DEEPSEEK_MODELS,
+  DEEPSEEK_UPLOAD_FILE_PATH
 } from './const'
-import { loginDeepseekViaAccount } from './auth'
-import { countTokens } from './tokenizer'
+import { deepseekUrl, getDeepseekConfig } from './config'
+import { cleanupSessions, discardSession, startSessionSweep } from './cleanup'
+import { createCitationRewriter, parseSearchResults, type DeepseekSearchResult } from './citation'
+import { loginDeepseekViaAccount, markDeepseekAccountInvalid } from './auth'
+import { applyCooldown } from './cooldown'
+import { loadMediaParts, type MediaContents, type MediaPart } from './media'
+import { classifyFailure, createBizError, createExhaustedError, createResponseError, getFailoverConfig, getFailoverDelay } from './failover'
+import { findReusableSession, rememberSession, type ReusableSession } from './session'
+import { countTokens, truncateToTokenLimit } from './tokenizer'
 
 /**
  * DeepSeek 账号配置类型
@@ -42,6 +77,8 @@ type DeepseekAccount = {
   type?: string
   /** 账号配置文件名（内部使用） */
   fileName?: string
+  /** 令牌已失效且无法重新登录（不再被选择） */
+  invalid?: boolean
 }
 
 /**
@@ -56,6 +93,16 @@ type DeepseekStreamEvent = {
   p?: string
   /** 事件值 */
   v?: unknown
+  /** 本轮回复的消息 ID（部分版本在首个事件中返回） */
+  response_message_id?: number
+  /** 错误事件的业务码（如限流、令牌失效） */
+  code?: number
+  /** 错误事件的信息 */
+  msg?: string
+  /** 事件类型（error 表示错误事件） */
+  type?: string
+  /** 错误事件的内容（部分版本以 content 代替 msg） */
+  content?: string
 }
 
 /**
@@ -92,10 +139,21 @@ function isReasoningModel(model: string) {
   return normalized.includes('reasoner') || normalized.includes('reasoning')
 }
 
+/**
+ * 解析本次请求的思考设置
+ *
+ * 请求参数（reasoning_effort / thinking / thinkingConfig）优先，
+ * 未指定时推理模型默认开启
+ */
+function resolveThinking(body: MiddleContent) {
+  return body.thinking ?? { enabled: isReasoningModel(body.model) }
+}
+
 /**
  * 判断是否为搜索模型
  *
- * 搜索模型会启用 search_enabled 参数，支持联网搜索
+ * 搜索模型会启用 search_enabled 参数，支持联网搜索。
+ * 请求参数（MiddleContent.web_search）同样可以开启搜索，-search 模型作为别名保留
  */
 function isSearchModel(model: string) {
   return model.toLowerCase().includes('search')
@@ -256,23 +314,27 @@ async function computePowAnswer(challenge: {
  * 3. 构造并返回 Base64 编码的响应
  *
  * @param token - Bearer Token
+ * @param targetPath - 需要 PoW 的接口路径（补全或文件上传）
  * @returns Promise<string> Base64 编码的 PoW 响应，用于 x-ds-pow-response 请求头
  */
-async function createPowResponse(token: string) {
+async function createPowResponse(token: string, targetPath = DEEPSEEK_COMPLETION_PATH) {
   // 请求 PoW 挑战
-  const response = await fetch(DEEPSEEK_CREATE_POW_URL, {
+  const response = await fetch(deepseekUrl(DEEPSEEK_CREATE_POW_PATH), {
     method: 'POST',
     headers: getDeepseekHeaders(token),
-    body: JSON.stringify({ target_path: '/api/v0/chat/completion' })
+    body: JSON.stringify({ target_path: targetPath })
   })
 
   if (!response.ok) {
-    throw new Error(`Create PoW challenge failed: ${response.status}`)
+    throw await createResponseError('Create PoW challenge failed', response)
   }
 
   const data = await response.json() as {
     code?: number
+    msg?: string
     data?: {
+      biz_code?: number
+      biz_msg?: string
       biz_data?: {
         challenge?: {
           algorithm: string
@@ -289,7 +351,7 @@ async function createPowResponse(token: string) {
 
   const challenge = data?.data?.biz_data?.challenge
   if (data?.code !== 0 || !challenge) {
-    throw new Error('Invalid DeepSeek PoW response')
+    throw createBizError('Invalid DeepSeek PoW response', data)
   }
 
   // 计算答案
@@ -324,42 +386,254 @@ async function createPowResponse(token: string) {
  * @returns Promise<string> 会话 ID
  */
 async function createSession(token: string) {
-  const response = await fetch(DEEPSEEK_CREATE_SESSION_URL, {
+  const response = await fetch(deepseekUrl(DEEPSEEK_CREATE_SESSION_PATH), {
     method: 'POST',
     headers: getDeepseekHeaders(token),
     body: JSON.stringify({ agent: 'chat' })
   })
 
   if (!response.ok) {
-    throw new Error(`Create session failed: ${response.status}`)
+    throw await createResponseError('Create session failed', response)
   }
 
   const data = await response.json() as {
     code?: number
-    data?: { biz_data?: { id?: string } }
+    msg?: string
+    data?: { biz_code?: number, biz_msg?: string, biz_data?: { id?: string } }
   }
 
   const id = data?.data?.biz_data?.id
   if (data?.code !== 0 || !id) {
-    throw new Error('Invalid DeepSeek session response')
+    throw createBizError('Invalid DeepSeek session response', data)
   }
 
   return id
 }
 
+/** 文件解析状态轮询默认间隔（毫秒） */
+const DEFAULT_UPLOAD_POLL_INTERVAL_MS = 1000
+/** 等待文件解析完成的默认最长时间（毫秒） */
+const DEFAULT_UPLOAD_POLL_TIMEOUT_MS = 60_000
+
+/**
+ * DeepSeek 文件信息
+ */
+type DeepseekFile = {
+  id: string
+  /** 解析状态：PENDING / PARSING 处理中，SUCCESS 可用，其余为失败 */
+  status?: string
+  file_name?: string
+  error_code?: string | null
+}
+
+/**
+ * 生成上传文件名
+ *
+ * 优先使用请求中的文件名，否则根据 MIME 类型推断扩展名
+ */
+function resolveUploadFileName(part: MediaPart, mediaType: string, index: number) {
+  if (part.type === 'file' && part.filename) {
+    return part.filename
+  }
+  const subtype = mediaType.split('/')[1]?.split('+')[0] ?? ''
+  const extension = subtype === 'plain' ? 'txt' : subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^\w]/g, '') || 'bin'
+  return `${part.type}-${index + 1}.${extension}`
+}
+
+/**
+ * 上传单个文件到 DeepSeek
+ *
+ * 上传接口同样需要 PoW 校验
+ *
+ * @param token - Bearer Token
+ * @param bytes - 文件内容
+ * @param mediaType - MIME 类型
+ * @param fileName - 文件名
+ * @returns Promise<DeepseekFile> 上传后的文件信息
+ */
+async function uploadFile(token: string, bytes: Buffer, mediaType: string, fileName: string) {
+  const powResponse = await createPowResponse(token, DEEPSEEK_UPLOAD_FILE_PATH)
+
+  const form = new FormData()
+  form.append('file', new Blob([new Uint8Array(bytes)], { type: mediaType }), fileName)
+
+  // multipart 请求由 fetch 生成 Content-Type（包含 boundary）
+  const { 'Content-Type': _contentType, ...headers } = getDeepseekHeaders(token, { 'x-ds-pow-response': powResponse })
+
+  const response = await fetch(deepseekUrl(DEEPSEEK_UPLOAD_FILE_PATH), {
+    method: 'POST',
+    headers,
+    body: form
+  })
+
+  if (!response.ok) {
+    throw await createResponseError('Upload file failed', response)
+  }
+
+  const data = await response.json() as {
+    code?: number
+    msg?: string
+    data?: { biz_code?: number, biz_msg?: string, biz_data?: DeepseekFile }
+  }
+
+  const file = data?.data?.biz_data
+  if (data?.code !== 0 || data?.data?.biz_code !== 0 || !file?.id) {
+    throw createBizError('Invalid DeepSeek upload response', data)
+  }
+
+  return file
+}
+
+/**
+ * 轮询文件解析状态，直到文件可用
+ *
+ * 网页版上传后文件需要先完成解析，才能在补全请求中引用
+ *
+ * @param token - Bearer Token
+ * @param file - 上传返回的文件信息
+ * @throws 解析失败时抛出 400 错误，超时抛出 504 错误
+ */
+async function waitForFileReady(token: string, file: DeepseekFile) {
+  const upload = getDeepseekConfig().upload
+  const interval = upload?.poll_interval_ms ?? DEFAULT_UPLOAD_POLL_INTERVAL_MS
+  const deadline = Date.now() + (upload?.poll_timeout_ms ?? DEFAULT_UPLOAD_POLL_TIMEOUT_MS)
+  let status = file.status
+
+  while (true) {
+    if (status === 'SUCCESS') {
+      return
+    }
+    if (status && status !== 'PENDING' && status !== 'PARSING') {
+      throw createError({ statusCode: 400, statusMessage: `DeepSeek failed to parse file ${file.file_name ?? file.id}: ${status}` })
+    }
+    if (Date.now() >= deadline) {
+      throw createError({ statusCode: 504, statusMessage: `Timed out waiting for DeepSeek to parse file ${file.file_name ?? file.id}` })
+    }
+
+    await new Promise(resolve => setTimeout(resolve, interval))
+
+    const response = await fetch(`${deepseekUrl(DEEPSEEK_FETCH_FILES_PATH)}?file_ids=${encodeURIComponent(file.id)}`, {
+      headers: getDeepseekHeaders(token)
+    })
+    if (!response.ok) {
+      throw await createResponseError('Fetch file status failed', response)
+    }
+
+    const data = await response.json() as {
+      code?: number
+      data?: { biz_data?: { files?: DeepseekFile[] } }
+    }
+    status = data?.data?.biz_data?.files?.find(item => item.id === file.id)?.status
+  }
+}
+
+/**
+ * 上传请求中的所有图片与文档
+ *
+ * 按消息顺序依次上传并等待解析完成，文件内容在选择账号前已读取（见 media.ts）
+ *
+ * @param token - Bearer Token
+ * @param body - 中间格式请求体
+ * @param media - 已读取的文件内容
+ * @returns Promise<string[]> 文件 ID 列表（用于 ref_file_ids）
+ */
+async function uploadContentFiles(token: string, body: Pick<MiddleContent, 'messages'>, media: MediaContents) {
+  const parts = body.messages.flatMap(message => typeof message.content === 'string' ? [] : message.content)
+  const mediaParts = parts.filter((part): part is MediaPart => part.type === 'image' || part.type === 'file')
+
+  const fileIds: string[] = []
+  for (const [index, part] of mediaParts.entries()) {
+    const content = media.get(part)
+    if (!content) {
+      throw createError({ statusCode: 500, statusMessage: `DeepSeek ${part.type} content was not loaded` })
+    }
+    const { bytes, mediaType } = content
+    const file = await uploadFile(token, bytes, mediaType, resolveUploadFileName(part, mediaType, index))
+    await waitForFileReady(token, file)
+    fileIds.push(file.id)
+  }
+  return fileIds
+}
+
+/** 历史转存附件的默认阈值（prompt token 数） */
+const DEFAULT_OFFLOAD_THRESHOLD_TOKENS = 60_000
+/** 转存后默认保留在 prompt 中的最近轮数 */
+const DEFAULT_OFFLOAD_KEEP_RECENT_TURNS = 2
+/** 历史附件文件名 */
+const HISTORY_FILE_NAME = 'conversation-history.txt'
+
+/**
+ * 将超长 prompt 中较早的历史转存为文本附件
+ *
+ * prompt token 数超过阈值时，保留系统消息和最近几轮对话（以用户消息划分轮次），
+ * 更早的消息渲染为文本文件上传，并在 prompt 中提示模型参考附件
+ *
+ * @param token - Bearer Token
+ * @param body - 中间格式请求体
+ * @param prompt - 完整 prompt（用于判断是否超过阈值）
+ * @returns Promise<{ body, fileIds }> 转存后的请求体与附件 ID（未转存时原样返回）
+ */
+async function offloadHistory(token: string, body: MiddleContent, prompt: string) {
+  const config = getDeepseekConfig().history_offload
+  const threshold = config?.threshold_tokens ?? DEFAULT_OFFLOAD_THRESHOLD_TOKENS
+  if (threshold <= 0 || await countTokens(prompt) <= threshold) {
+    return { body, fileIds: [] }
+  }
+
+  const keepTurns = Math.max(1, config?.keep_recent_turns ?? DEFAULT_OFFLOAD_KEEP_RECENT_TURNS)
+  const systemMessages = body.messages.filter(message => message.role === 'system')
+  const dialog = body.messages.filter(message => message.role !== 'system')
+
+  // 从后往前找到第 keepTurns 条用户消息，作为保留在 prompt 中的起点
+  let start = dialog.length
+  let turns = 0
+  for (let index = dialog.length - 1; index >= 0 && turns < keepTurns; index--) {
+    if (dialog[index]!.role === 'user') {
+      start = index
+      turns += 1
+    }
+  }
+  if (!turns || start === 0) {
+    return { body, fileIds: [] }
+  }
+
+  // 较早的历史渲染为文本附件
+  const older = dialog.slice(0, start)
+  const history = MiddleContentToPrompt({ model: body.model, messages: older }).trim()
+  const file = await uploadFile(token, Buffer.from(history, 'utf-8'), 'text/plain', HISTORY_FILE_NAME)
+  await waitForFileReady(token, file)
+  console.log(`📎 Offloaded ${older.length} earlier messages to ${HISTORY_FILE_NAME}`)
+
+  return {
+    body: {
+      ...body,
+      messages: [
+        ...systemMessages,
+        {
+          role: 'system' as const,
+          content: `The earlier part of this conversation (${older.length} messages) is in the attached file ${HISTORY_FILE_NAME}. Read it as context and continue the conversation below.`
+        },
+        ...dialog.slice(start)
+      ]
+    },
+    fileIds: [file.id]
+  }
+}
+
 /**
  * 解析账号用于指定模型
  *
  * 从 selector 选择可用账号，并确保有有效的 token
  *
  * @param model - 模型名称
- * @returns Promise<{ fileName, token }> 账号信息
- * @throws 当无可用账号时抛出 429 错误
+ * @param preferred - 优先使用的账号文件名（会话复用）
+ * @returns Promise<{ fileName, token } | null> 账号信息，无可用账号时返回 null
+ * @throws 登录失败时释放该账号并按失败类型冷却，抛出登录失败的原始错误
  */
-async function resolveAccountForModel(model: string) {
-  const selected = selectAccount(model)
+async function resolveAccountForModel(model: string, preferred?: string) {
+  const selected = selectAccount(model, preferred)
   if (!selected) {
-    throw createError({ statusCode: 429, statusMessage: 'No DeepSeek account available' })
+    return null
   }
 
   // 从账号存储中获取完整账号信息
@@ -376,7 +650,14 @@ async function resolveAccountForModel(model: string) {
 
   // 如果没有 token，尝试登录获取
   if (!account.token) {
-    account.token = await loginDeepseekViaAccount(account)
+    try {
+      account.token = await loginDeepseekViaAccount(account)
+    } catch (error) {
+      // 按登录失败的实际类型冷却（凭据被拒绝为 auth，网络错误、上游 5xx、429 等按各自类型）
+      releaseAccount(selected.fileName)
+      applyCooldown(model, selected.fileName, error)
+      throw error
+    }
   }
 
   return {
@@ -385,6 +666,35 @@ async function resolveAccountForModel(model: string) {
   }
 }
 
+/**
+ * 令牌失效后刷新账号令牌
+ *
+ * 有账密的账号重新登录并保存新令牌；只有令牌的账号无法恢复，标记为失效并停用
+ *
+ * @param fileName - 账号文件名
+ * @param error - 触发刷新的 auth 类失败
+ * @returns Promise<string> 新令牌
+ * @throws 无法重新登录时抛出登录失败的原始错误（由调用方按失败类型冷却并切换账号）
+ */
+async function refreshAccountToken(fileName: string, error: unknown) {
+  const accountEntries = getAccountsWithFiles('deepseek') as Array<{ fileName: string, data: DeepseekAccount }>
+  const account = accountEntries.find(entry => entry.fileName === fileName)?.data
+  if (!account) {
+    throw error
+  }
+  account.fileName = fileName
+
+  if (!account.username || !account.password) {
+    disableAccount(fileName)
+    await markDeepseekAccountInvalid(account)
+    console.warn(`⚠️ DeepSeek token of ${fileName} is invalid and the account has no password, disabled`)
+    throw error
+  }
+
+  console.log(`🔍 DeepSeek token of ${fileName} was rejected, logging in again`)
+  return await loginDeepseekViaAccount(account)
+}
+
 /**
  * 解析 DeepSeek 流式事件
  *
@@ -409,6 +719,348 @@ function parseDeepseekEvent(line: string): DeepseekStreamEvent | null {
   }
 }
 
+/**
+ * DeepSeek 补全请求参数
+ */
+type DeepseekCompletionOptions = {
+  /** 完整 prompt */
+  prompt: string
+  /** 是否启用思考模式 */
+  thinkingEnabled: boolean
+  /** 是否启用联网搜索 */
+  searchEnabled: boolean
+  /** 引用的已上传文件 ID */
+  refFileIds: string[]
+  /** 继续已有会话时的会话 ID（为空时新建会话） */
+  sessionId?: string
+  /** 继续已有会话时的父消息 ID */
+  parentMessageId?: number
+  /** 中止上游请求的信号 */
+  signal?: AbortSignal
+}
+
+/**
+ * 发起 DeepSeek 补全请求
+ *
+ * 未指定会话时新建会话，每次请求都需计算 PoW
+ *
+ * @param token - Bearer Token
+ * @param options - 补全请求参数
+ * @returns Promise<{ sessionId, response }> 会话 ID 与上游流式响应
+ */
+async function requestCompletion(token: string, options: DeepseekCompletionOptions) {
+  // 创建会话（或继续已有会话）和 PoW 响应
+  const sessionId = options.sessionId ?? await createSession(token)
+  const powResponse = await createPowResponse(token)
+
+  // 构造补全请求 payload
+  const completionPayload = {
+    chat_session_id: sessionId,
+    parent_message_id: options.parentMessageId ?? null,
+    prompt: options.prompt,
+    ref_file_ids: options.refFileIds,
+    thinking_enabled: options.thinkingEnabled,
+    search_enabled: options.searchEnabled
+  }
+
+  const response = await fetch(deepseekUrl(DEEPSEEK_COMPLETION_PATH), {
+    method: 'POST',
+    headers: getDeepseekHeaders(token, { 'x-ds-pow-response': powResponse }),
+    body: JSON.stringify(completionPayload),
+    signal: options.signal
+  })
+
+  return { sessionId, response }
+}
+
+/**
+ * DeepSeek 输出增量
+ *
+ * thinking 为推理内容，content 为正文，search_results 为联网搜索结果
+ */
+type DeepseekDelta
+  = | { type: 'thinking' | 'content', text: string }
+    | { type: 'search_results', results: DeepseekSearchResult[] }
+
+/**
+ * 读取 DeepSeek 流式响应
+ *
+ * 解析 SSE 行并逐个回调推理/正文增量与搜索结果，遇到结束信号或流结束后返回。
+ * 回调返回 false 时提前停止读取，遇到错误事件时抛出上游失败。
+ *
+ * @param body - 上游响应体
+ * @param onDelta - 增量回调
+ * @returns Promise<{ responseMessageId }> 本轮回复的消息 ID（用于继续会话）
+ */
+async function readDeepseekStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: DeepseekDelta) => Promise<boolean>
+) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = '' // SSE 解析缓冲区
+  let responseMessageId: number | undefined
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        return { responseMessageId }
+      }
+
+      if (!value) {
+        continue
+      }
+
+      // 解析 SSE 行
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const event = parseDeepseekEvent(line)
+        if (!event) continue
+
+        // 流中的错误事件（限流、令牌失效等），按业务码归类
+        if ((typeof event.code === 'number' && event.code !== 0) || event.type === 'error') {
+          throw createBizError('DeepSeek stream error', { code: event.code, msg: event.msg ?? event.content })
+        }
+
+        // 记录回复消息 ID（旧版在顶层字段，新版在首个事件的 v.response 中）
+        if (typeof event.response_message_id === 'number') {
+          responseMessageId = event.response_message_id
+        }
+        const messageId = (event.v as { response?: { message_id?: unknown } } | undefined)?.response?.message_id
+        if (typeof messageId === 'number') {
+          responseMessageId = messageId
+        }
+
+        // 处理结束事件
+        if (event.p === 'done' || event.v === '[DONE]') {
+          return { responseMessageId }
+        }
+
+        // 跳过搜索状态事件
+        if (event.p === 'response/search_status') {
+          continue
+        }
+
+        // 处理搜索结果事件
+        if (event.p?.endsWith('search_results')) {
+          const results = parseSearchResults(event.v)
+          if (results.length && !await onDelta({ type: 'search_results', results })) {
+            return { responseMessageId }
+          }
+          continue
+        }
+
+        // 处理数组类型事件（检查是否包含 FINISHED 信号与搜索结果）
+        if (Array.isArray(event.v)) {
+          const items = event.v.filter((item: unknown): item is { p?: unknown, v?: unknown } => Boolean(item) && typeof item === 'object')
+          const results = items
+            .filter(item => typeof item.p === 'string' && item.p.endsWith('search_results'))
+            .flatMap(item => parseSearchResults(item.v))
+          if (results.length && !await onDelta({ type: 'search_results', results })) {
+            return { responseMessageId }
+          }
+
+          const hasFinishedSignal = items.some(item => item.p === 'status' && item.v === 'FINISHED')
+          if (hasFinishedSignal) {
+            return { responseMessageId }
+          }
+          continue
+        }
+
+        // 跳过非字符串内容
+        if (typeof event.v !== 'string' || !event.v) {
+          continue
+        }
+
+        const type = event.p === 'response/thinking_content' ? 'thinking' : 'content'
+        if (!await onDelta({ type, text: event.v })) {
+          return { responseMessageId }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * 校验补全请求的响应
+ *
+ * @param response - 补全请求的上游响应
+ * @throws 上游返回错误状态，或以 JSON 返回业务错误（如令牌失效）时抛出可归类的错误
+ */
+async function assertCompletionResponse(response: Response) {
+  if (!response.ok || !response.body) {
+    throw await createResponseError('DeepSeek completion failed', response)
+  }
+
+  // 令牌失效等业务错误以 JSON 而非 SSE 返回
+  if (response.headers.get('content-type')?.includes('application/json')) {
+    throw createBizError('DeepSeek completion failed', await response.json().catch(() => null))
+  }
+}
+
+/**
+ * 已发起的补全请求
+ */
+type OpenedCompletion = {
+  /** 使用的账号（已加锁） */
+  account: { fileName: string, token: string }
+  /** 实际发送的请求体（超长历史可能已转存为附件） */
+  requestBody: MiddleContent
+  /** 补全请求参数（结构化输出重新提问时复用） */
+  completionOptions: Pick<DeepseekCompletionOptions, 'thinkingEnabled' | 'searchEnabled' | 'refFileIds'>
+  /** 上游会话 ID */
+  sessionId: string
+  /** 上游流式响应 */
+  response: Response
+}
+
+/**
+ * 在指定账号上准备并发起补全请求
+ *
+ * 继续原会话时只发送新增消息及其附件，否则上传全部图片/文档并按需转存超长历史
+ *
+ * @param body - 中间格式请求体
+ * @param prompt - 完整 prompt
+ * @param media - 已读取的图片/文档内容（本次发送的消息中尚未读取的附件会补读进去）
+ * @param account - 使用的账号
+ * @param continued - 可在该账号上继续的会话
+ * @param features - 思考与搜索开关
+ * @param signal - 中止上游请求的信号
+ * @throws 任一步骤失败或上游返回错误状态时抛出错误
+ */
+async function openCompletion(
+  body: MiddleContent,
+  prompt: string,
+  media: MediaContents,
+  account: { fileName: string, token: string },
+  continued: ReusableSession | null,
+  features: Pick<DeepseekCompletionOptions, 'thinkingEnabled' | 'searchEnabled'>,
+  signal: AbortSignal
+): Promise<OpenedCompletion> {
+  let requestBody = body
+  let requestPrompt = prompt
+  let refFileIds: string[]
+  // 只读取本次实际发送的消息中的附件（之前的尝试已读取的直接复用）
+  await loadMediaParts(continued ? continued.messages : body.messages, media)
+  if (continued) {
+    // 继续原会话：历史已在上游会话中，只发送新增消息及其附件
+    requestPrompt = MiddleContentToPrompt({ model: body.model, messages: continued.messages })
+    refFileIds = await uploadContentFiles(account.token, continued, media)
+    console.log(`🔍 Continuing DeepSeek session ${continued.sessionId} with ${continued.messages.length} new messages`)
+  } else {
+    // 图片/文档上传到当前账号，超长历史转存为附件
+    const mediaFileIds = await uploadContentFiles(account.token, body, media)
+    const offloaded = await offloadHistory(account.token, body, prompt)
+    requestBody = offloaded.body
+    if (requestBody !== body) {
+      requestPrompt = MiddleContentToPrompt(requestBody)
+    }
+    refFileIds = [...mediaFileIds, ...offloaded.fileIds]
+  }
+
+  const completionOptions = { ...features, refFileIds }
+  const { sessionId, response } = await requestCompletion(account.token, {
+    prompt: requestPrompt,
+    ...completionOptions,
+    sessionId: continued?.sessionId,
+    parentMessageId: continued?.parentMessageId,
+    signal
+  })
+
+  try {
+    await assertCompletionResponse(response)
+  } catch (error) {
+    cleanupSessions(account.token, [sessionId], account.fileName)
+    throw error
+  }
+
+  return { account, requestBody, completionOptions, sessionId, response }
+}
+
+/**
+ * 选择账号并发起补全请求，首个 token 返回前失败时切换账号重试
+ *
+ * 令牌失效时先重新登录一次并在同一账号上重试（只有令牌的账号会被停用）。
+ * 每次可归类的失败（鉴权、限流、上游 5xx、网络、封禁）都会按冷却策略跳过或停用该账号，
+ * 按退避间隔换下一个账号重试；与账号无关的失败（如上游 4xx、未知业务错误、请求参数错误）
+ * 直接抛出，不惩罚账号。
+ * 会话复用只在首次尝试命中原账号时生效，切换账号后发送完整历史。
+ *
+ * @param body - 中间格式请求体
+ * @param prompt - 完整 prompt
+ * @param media - 已读取的图片/文档内容（各次尝试共用，切换账号发送完整历史时补读）
+ * @param reuse - 可继续的会话（优先使用其所在账号）
+ * @param features - 思考与搜索开关
+ * @param signal - 中止上游请求的信号
+ * @returns Promise<OpenedCompletion> 成功发起的补全请求（账号保持加锁）
+ * @throws 尝试次数用尽或没有可用账号时抛出汇总错误
+ */
+async function openCompletionWithFailover(
+  body: MiddleContent,
+  prompt: string,
+  media: MediaContents,
+  reuse: ReusableSession | null,
+  features: Pick<DeepseekCompletionOptions, 'thinkingEnabled' | 'searchEnabled'>,
+  signal: AbortSignal
+) {
+  const model = body.model
+  const { maxAttempts } = getFailoverConfig()
+  let lastError: unknown
+
+  for (let attempt = 1; ; attempt++) {
+    let account: { fileName: string, token: string } | null = null
+    try {
+      // 首次尝试优先使用会话所在账号
+      account = await resolveAccountForModel(model, attempt === 1 ? reuse?.fileName : undefined)
+      if (!account) {
+        throw lastError === undefined
+          ? createError({ statusCode: 429, statusMessage: 'No DeepSeek account available' })
+          : createExhaustedError(attempt - 1, lastError)
+      }
+
+      // 原账号不可用时退回为新会话
+      const continued = reuse?.fileName === account.fileName ? reuse : null
+      try {
+        return await openCompletion(body, prompt, media, account, continued, features, signal)
+      } catch (error) {
+        // 令牌失效：重新登录一次后在同一账号上重试
+        if (classifyFailure(error) !== 'auth') {
+          throw error
+        }
+        account.token = await refreshAccountToken(account.fileName, error)
+        return await openCompletion(body, prompt, media, account, continued, features, signal)
+      }
+    } catch (error) {
+      if (account) {
+        releaseAccount(account.fileName)
+      }
+
+      const kind = classifyFailure(error)
+      if (!kind) {
+        throw error
+      }
+
+      // 按失败类型冷却该账号，换下一个账号
+      if (account) {
+        applyCooldown(model, account.fileName, error)
+      }
+      lastError = error
+      console.warn(`⚠️ DeepSeek attempt ${attempt}/${maxAttempts} failed (${kind}): ${(error as Error).message}`)
+
+      if (attempt >= maxAttempts) {
+        throw createExhaustedError(attempt, error)
+      }
+      await new Promise(resolve => setTimeout(resolve, getFailoverDelay(attempt)))
+    }
+  }
+}
+
 /**
  * DeepSeek Handler - 主处理函数
  *
@@ -417,11 +1069,18 @@ function parseDeepseekEvent(line: string): DeepseekStreamEvent | null {
  * 完整流程：
  * 1. 验证模型名称
  * 2. 转换请求为 prompt
- * 3. 选择并解析账号
- * 4. 创建会话
+ * 3. 读取将要发送的图片/文档（继续原会话时只读取新增消息中的，URL 来源下载一次），
+ *    选择并解析账号（历史命中会话缓存时优先使用原账号）
+ * 4. 上传图片/文档并等待解析完成，创建会话（或继续原会话，只发送新增消息）
  * 5. 计算 PoW
- * 6. 发起补全请求
- * 7. 转换 DeepSeek SSE 为 OpenAI SSE
+ * 6. 发起补全请求（3~6 步失败时切换账号重试，见 openCompletionWithFailover）
+ * 7. 转换 DeepSeek SSE 为 OpenAI SSE（启用工具时解析工具调用标记为 tool_calls，
+ *    启用搜索时输出 search_results 并将引用标记改写为带 url_citation 注解的正文，
+ *    推理内容超出思考预算时截断，
+ *    命中停止序列或达到 max_tokens 时截断输出并中止上游请求）
+ *
+ * 要求结构化输出时会缓冲完整输出并按 Schema 校验，
+ * 未通过时在同一账号上重新提问，直到通过或达到最大尝试次数（此时不复用会话）
  *
  * @param body - 中间格式请求体
  * @returns Promise<Response> OpenAI 格式 SSE 流响应
@@ -434,64 +1093,88 @@ export async function DeepSeekHandler(body: MiddleContent) {
     throw createError({ statusCode: 400, statusMessage: `Unsupported DeepSeek model: ${model}` })
   }
 
+  // 音频与 file_id 引用无法上传到 DeepSeek，直接拒绝而不是静默丢弃
+  const unsupported = findUnsupportedContentPart(body, ['text', 'image', 'file'])
+  if (unsupported) {
+    throw createError({ statusCode: 400, statusMessage: `Unsupported content part for DeepSeek: ${unsupported}` })
+  }
+
   // 转换消息为 prompt 字符串
   const prompt = MiddleContentToPrompt(body)
   if (!prompt) {
     throw createError({ statusCode: 400, statusMessage: 'messages is required' })
   }
 
-  // 选择账号
-  const account = await resolveAccountForModel(model)
+  // 结构化输出可能需要多次提问，不复用会话
+  const structured = resolveStructuredOutput(body)
+  const reuse = structured ? null : findReusableSession(body)
+
+  const thinking = resolveThinking(body)
+  const reasoningEnabled = thinking.enabled
+  const searchEnabled = isSearchModel(model) || Boolean(body.web_search)
+
+  // 图片/文档在选择账号前读取（读取失败直接返回 400，不影响账号），
+  // 继续原会话时只发送新增消息，不读取历史中的附件
+  const media = await loadMediaParts(reuse ? reuse.messages : body.messages)
+
+  // 选择账号并发起补全请求（命中停止序列、达到长度限制或客户端断开时中止），失败时切换账号重试
+  const upstreamAbort = new AbortController()
+  const {
+    account,
+    requestBody,
+    completionOptions,
+    sessionId,
+    response: completionResponse
+  } = await openCompletionWithFailover(body, prompt, media, reuse, {
+    thinkingEnabled: reasoningEnabled, // 推理模型或请求要求时启用思考模式
+    searchEnabled // 搜索模型或请求要求时启用搜索
+  }, upstreamAbort.signal)
 
   try {
-    // 创建会话和 PoW 响应
-    const sessionId = await createSession(account.token)
-    const powResponse = await createPowResponse(account.token)
-
-    // 构造补全请求 payload
-    const completionPayload = {
-      chat_session_id: sessionId,
-      parent_message_id: null,
-      prompt,
-      ref_file_ids: [],
-      thinking_enabled: isReasoningModel(model), // 推理模型启用思考模式
-      search_enabled: isSearchModel(model) // 搜索模型启用搜索
-    }
-
-    // 发起补全请求
-    const completionResponse = await fetch(DEEPSEEK_COMPLETION_URL, {
-      method: 'POST',
-      headers: getDeepseekHeaders(account.token, { 'x-ds-pow-response': powResponse }),
-      body: JSON.stringify(completionPayload)
-    })
-
-    if (!completionResponse.ok || !completionResponse.body) {
-      // 标记账号为跳过状态
-      skipAccount(model, account.fileName)
-      throw createError({ statusCode: completionResponse.status || 500, statusMessage: 'DeepSeek completion failed' })
-    }
+    // 本次请求使用的会话（结束后按清理策略处理）
+    const sessionIds = [sessionId]
 
     // 准备流式响应转换
     const created = nowInSeconds()
-    const completionId = sessionId
-    const reasoningEnabled = isReasoningModel(model)
+    // 每次响应使用新的 ID（复用会话时多轮共用同一个 sessionId）
+    const completionId = `chatcmpl-${randomUUID()}`
+    const toolsEnabled = isToolCallingEnabled(body)
+
+    // 客户端是否已断开
+    let cancelled = false
 
     // 创建 OpenAI 格式 SSE 输出流
     const stream = new ReadableStream<Uint8Array>({
       start(controller) {
         const encoder = new TextEncoder()
-        const decoder = new TextDecoder()
 
         // 状态变量
         let firstChunkSent = false
         let fullReasoning = '' // 累积推理内容
         let fullContent = '' // 累积输出内容
         let finished = false
-        let buffer = '' // SSE 解析缓冲区
+        let toolCallCount = 0 // 已输出的工具调用数量
+        let matchedStop: string | undefined // 命中的停止序列
+        let outputTokens = 0 // 已输出的 token 数（推理 + 内容）
+        let lengthReached = false // 是否达到 max_tokens
+        let reasoningTokens = 0 // 已输出的推理 token 数
+        let thinkingBudgetReached = false // 是否达到思考预算
+        let replyText = '' // 返回给客户端的正文（用于记录会话）
+        const replyToolCalls: MiddleToolCall[] = []
+
+        // 工具调用解析器（仅在启用工具时使用）
+        const toolParser = toolsEnabled ? createToolCallParser() : null
+        // 停止序列匹配器（仅在请求携带 stop 时使用）
+        const stopMatcher = body.stop?.length ? createStopSequenceMatcher(body.stop) : null
+        // 已收到的搜索结果与引用标记改写器（仅在启用搜索时使用）
+        const searchResults: DeepseekSearchResult[] = []
+        const citationRewriter = searchEnabled
+          ? createCitationRewriter(index => searchResults.find(result => result.index === index))
+          : null
 
         // 心跳定时器，保持连接活跃
         const keepAliveTimer = setInterval(() => {
-          if (!finished) {
+          if (!finished && !cancelled) {
             controller.enqueue(encoder.encode(': keep-alive\n\n'))
           }
         }, 5000)
@@ -499,7 +1182,17 @@ export async function DeepSeekHandler(body: MiddleContent) {
         /**
          * 发送 OpenAI 格式的 chunk
          */
-        const sendChunk = (delta: Record<string, string>) => {
+        const sendChunk = (delta: Record<string, unknown>) => {
+          if (typeof delta.content === 'string') {
+            replyText += delta.content
+          }
+
+          // 首个 chunk 需要包含 role
+          if (!firstChunkSent) {
+            delta = { role: 'assistant', ...delta }
+            firstChunkSent = true
+          }
+
           const payload = {
             id: completionId,
             object: 'chat.completion.chunk',
@@ -510,6 +1203,108 @@ export async function DeepSeekHandler(body: MiddleContent) {
           controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
         }
 
+        /**
+         * 发送正文（启用搜索时改写引用标记，并以 url_citation 注解标出引用位置）
+         */
+        const sendText = (text: string) => {
+          if (!citationRewriter) {
+            if (text) sendChunk({ content: text })
+            return
+          }
+
+          const result = citationRewriter.push(text)
+          if (!result.text) return
+          const annotations = result.citations.map(citation => ({
+            type: 'url_citation',
+            url_citation: {
+              start_index: replyText.length + citation.start,
+              end_index: replyText.length + citation.end,
+              url: citation.result.url,
+              title: citation.result.title
+            }
+          }))
+          sendChunk({ content: result.text, ...(annotations.length ? { annotations } : {}) })
+        }
+
+        /**
+         * 发送新收到的搜索结果（search_results 扩展字段）
+         */
+        const sendSearchResults = (results: DeepseekSearchResult[]) => {
+          const added = results.filter(result => !searchResults.some(item => item.url === result.url && item.index === result.index))
+          if (!added.length) return
+          searchResults.push(...added)
+          sendChunk({ search_results: added })
+        }
+
+        /**
+         * 发送工具调用解析器输出的片段
+         */
+        const sendSegments = (segments: ToolCallSegment[]) => {
+          for (const segment of segments) {
+            if (segment.type === 'text') {
+              sendText(segment.text)
+              continue
+            }
+
+            const toolCall: MiddleToolCall = {
+              id: segment.call.id,
+              type: 'function',
+              function: {
+                name: segment.call.name,
+                arguments: segment.call.arguments
+              }
+            }
+            sendChunk({ tool_calls: [{ index: toolCallCount, ...toolCall }] })
+            replyToolCalls.push(toolCall)
+            toolCallCount += 1
+          }
+        }
+
+        /**
+         * 按 max_tokens 截断本次输出
+         *
+         * 逐段累计 token 数，超出上限的部分被丢弃并标记达到长度限制
+         */
+        const takeTokenBudget = async (text: string) => {
+          if (!body.max_tokens) return text
+          const result = await truncateToTokenLimit(text, body.max_tokens - outputTokens)
+          outputTokens += result.tokens
+          if (result.truncated || outputTokens >= body.max_tokens) {
+            lengthReached = true
+          }
+          return result.text
+        }
+
+        /**
+         * 按思考预算截断推理内容
+         *
+         * 超出预算后的推理内容全部丢弃，正文照常输出
+         */
+        const takeThinkingBudget = async (text: string) => {
+          const budget = thinking.budget_tokens
+          if (!budget) return text
+          if (thinkingBudgetReached) return ''
+          const result = await truncateToTokenLimit(text, budget - reasoningTokens)
+          reasoningTokens += result.tokens
+          if (result.truncated || reasoningTokens >= budget) {
+            thinkingBudgetReached = true
+          }
+          return result.text
+        }
+
+        /**
+         * 输出普通内容（启用工具时先经过工具调用解析）
+         */
+        const sendContent = (text: string) => {
+          if (!text) return
+          fullContent += text
+          if (toolParser) {
+            sendSegments(toolParser.push(text))
+          } else {
+            sendText(text)
+          }
+        }
+
         /**
          * 完成流式响应
          *
@@ -520,9 +1315,21 @@ export async function DeepSeekHandler(body: MiddleContent) {
           finished = true
           clearInterval(keepAliveTimer)
 
+          // 输出停止序列匹配器与工具调用解析器中剩余的内容
+          if (stopMatcher) {
+            sendContent(stopMatcher.flush())
+          }
+          if (toolParser) {
+            sendSegments(toolParser.flush())
+          }
+          const citationRest = citationRewriter?.flush()
+          if (citationRest) {
+            sendChunk({ content: citationRest })
+          }
+
           // 计算 token 使用量
           const promptTokens = await countTokens(prompt)
-          const reasoningTokens = reasoningEnabled ? await countTokens(fullReasoning) : 0
+          const reasoningTokenCount = reasoningEnabled ? await countTokens(fullReasoning) : 0
           const completionTokens = await countTokens(fullContent)
 
           // 发送最终 chunk
@@ -531,13 +1338,19 @@ export async function DeepSeekHandler(body: MiddleContent) {
             object: 'chat.completion.chunk',
             created,
             model,
-            choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+            choices: [{
+              index: 0,
+              delta: {},
+              finish_reason: lengthReached ? 'length' : toolCallCount ? 'tool_calls' : 'stop',
+              // 与 vLLM 一致，通过 stop_reason 告知命中的停止序列
+              ...(matchedStop !== undefined ? { stop_reason: matchedStop } : {})
+            }],
             usage: {
               prompt_tokens: promptTokens,
-              completion_tokens: reasoningTokens + completionTokens,
-              total_tokens: promptTokens + reasoningTokens + completionTokens,
+              completion_tokens: reasoningTokenCount + completionTokens,
+              total_tokens: promptTokens + reasoningTokenCount + completionTokens,
               completion_tokens_details: {
-                reasoning_tokens: reasoningTokens,
+                reasoning_tokens: reasoningTokenCount,
                 completion_tokens: completionTokens
               }
             }
@@ -548,100 +1361,141 @@ export async function DeepSeekHandler(body: MiddleContent) {
           controller.close()
         }
 
-        // 异步处理 DeepSeek 响应流
-        ;(async () => {
-          const reader = completionResponse.body!.getReader()
+        /**
+         * 处理一段模型输出
+         *
+         * @returns 命中停止序列或达到长度限制时返回 false，停止读取上游
+         */
+        const handleDelta = async (delta: DeepseekDelta) => {
+          if (delta.type === 'search_results') {
+            sendSearchResults(delta.results)
+            return true
+          }
+          if (delta.type === 'thinking' && !reasoningEnabled) return true
+
+          // 按思考预算与 max_tokens 截断
+          const text = await takeTokenBudget(delta.type === 'thinking' ? await takeThinkingBudget(delta.text) : delta.text)
+
+          // 根据事件类型发送 delta 内容
+          if (delta.type === 'thinking') {
+            // 推理内容
+            fullReasoning += text
+            if (text) sendChunk({ reasoning_content: text })
+          } else if (stopMatcher) {
+            // 普通内容，先检查停止序列
+            const result = stopMatcher.push(text)
+            sendContent(result.text)
+            if (result.matched !== undefined) {
+              // 命中停止序列：结束输出并中止上游生成
+              matchedStop = result.matched
+              upstreamAbort.abort()
+              return false
+            }
+          } else {
+            sendContent(text)
+          }
 
-          try {
-            while (true) {
-              const { done, value } = await reader.read()
-              if (done) {
-                break
-              }
+          // 达到长度限制：结束输出并中止上游生成
+          if (lengthReached) {
+            upstreamAbort.abort()
+            return false
+          }
+          return true
+        }
 
-              if (!value) {
-                continue
+        /**
+         * 结构化输出：缓冲完整输出并校验，未通过时在同一账号上重新提问
+         */
+        const runStructured = async (spec: StructuredOutputSpec) => {
+          const maxAttempts = getStructuredOutputMaxAttempts()
+          let response = completionResponse
+
+          for (let attempt = 1; ; attempt++) {
+            let reasoning = ''
+            let content = ''
+            await readDeepseekStream(response.body!, async (delta) => {
+              if (delta.type === 'thinking') {
+                reasoning += delta.text
+              } else if (delta.type === 'content') {
+                content += delta.text
               }
+              return true
+            })
 
-              // 解析 SSE 行
-              buffer += decoder.decode(value, { stream: true })
-              const lines = buffer.split('\n')
-              buffer = lines.pop() ?? ''
-
-              for (const line of lines) {
-                const event = parseDeepseekEvent(line)
-                if (!event) continue
-
-                // 处理结束事件
-                if (event.p === 'done' || event.v === '[DONE]') {
-                  await finish()
-                  return
-                }
-
-                // 跳过搜索状态事件
-                if (event.p === 'response/search_status') {
-                  continue
-                }
-
-                // 处理数组类型事件（检查是否包含 FINISHED 信号）
-                if (Array.isArray(event.v)) {
-                  const hasFinishedSignal = event.v.some((item: unknown) => {
-                    if (!item || typeof item !== 'object') {
-                      return false
-                    }
-
-                    const maybeEvent = item as { p?: unknown, v?: unknown }
-                    return maybeEvent.p === 'status' && maybeEvent.v === 'FINISHED'
-                  })
-                  if (hasFinishedSignal) {
-                    await finish()
-                    return
-                  }
-                  continue
-                }
-
-                // 跳过非字符串内容
-                if (typeof event.v !== 'string' || !event.v) {
-                  continue
-                }
-
-                const delta: Record<string, string> = {}
-
-                // 首个 chunk 需要包含 role
-                if (!firstChunkSent) {
-                  delta.role = 'assistant'
-                  firstChunkSent = true
-                }
-
-                // 根据事件类型设置 delta 内容
-                if (event.p === 'response/thinking_content') {
-                  // 推理内容
-                  if (!reasoningEnabled) continue
-                  fullReasoning += event.v
-                  delta.reasoning_content = event.v
-                } else {
-                  // 普通内容
-                  fullContent += event.v
-                  delta.content = event.v
-                }
-
-                // 发送 chunk
-                if (Object.keys(delta).length > 0) {
-                  sendChunk(delta)
-                }
+            const result = validateStructuredOutput(content, spec)
+            if (result.ok || attempt >= maxAttempts) {
+              if (!result.ok) {
+                console.warn(`⚠️ DeepSeek structured output still invalid after ${attempt} attempts: ${result.error}`)
               }
+              if (reasoning) await handleDelta({ type: 'thinking', text: reasoning })
+              await handleDelta({ type: 'content', text: result.text })
+              return
+            }
+
+            // 附上本次输出与校验错误，在同一账号上重新提问
+            const retryPrompt = MiddleContentToPrompt({
+              ...requestBody,
+              messages: [
+                ...requestBody.messages,
+                { role: 'assistant', content },
+                { role: 'user', content: buildStructuredRetryPrompt(spec, result.error) }
+              ]
+            })
+            const retry = await requestCompletion(account.token, {
+              prompt: retryPrompt,
+              ...completionOptions,
+              signal: upstreamAbort.signal
+            })
+            sessionIds.push(retry.sessionId)
+            // 业务错误与限流按失败类型冷却账号并以错误事件结束，不交给 Schema 校验
+            await assertCompletionResponse(retry.response)
+            response = retry.response
+          }
+        }
+
+        // 异步处理 DeepSeek 响应流
+        ;(async () => {
+          try {
+            let responseMessageId: number | undefined
+            if (structured) {
+              await runStructured(structured)
+            } else {
+              ({ responseMessageId } = await readDeepseekStream(completionResponse.body!, handleDelta))
             }
 
             await finish()
+
+            // 完整结束的回复记录到会话缓存，供下一轮继续（截断的回复与上游内容不一致，不记录）
+            if (responseMessageId !== undefined && matchedStop === undefined && !lengthReached && !cancelled) {
+              rememberSession(body, {
+                role: 'assistant',
+                content: replyText,
+                ...(replyToolCalls.length ? { tool_calls: replyToolCalls } : {})
+              }, { fileName: account.fileName, sessionId, parentMessageId: responseMessageId })
+            }
           } catch (error) {
             clearInterval(keepAliveTimer)
-            controller.error(error)
+            // 客户端断开导致的中止无需再向流报告错误
+            if (!cancelled) {
+              console.error(`❌ DeepSeek stream failed (${account.fileName}):`, error)
+              // 已开始输出，无法切换账号，只按失败类型冷却该账号
+              applyCooldown(model, account.fileName, error)
+              // 以 OpenAI 格式的错误事件结束流，由各转换器转为对应协议的错误事件
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(toOpenAIError(error))}\n\n`))
+              controller.close()
+            }
           } finally {
-            // 释放账号锁
+            // 释放账号锁，按策略清理会话
             releaseAccount(account.fileName)
-            reader.releaseLock()
+            cleanupSessions(account.token, sessionIds, account.fileName)
           }
         })()
+      },
+      cancel() {
+        // 客户端断开时中止上游请求，释放账号
+        // （Anthropic、Gemini、Responses 等协议的转换流会将取消转发到这里，见 chat.ts）
+        cancelled = true
+        upstreamAbort.abort()
       }
     })
 
@@ -663,26 +1517,106 @@ export async function DeepSeekHandler(body: MiddleContent) {
   }
 }
 
+/**
+ * 计算 DeepSeek 请求的输入 token 数
+ *
+ * 与 DeepSeekHandler 使用相同的 prompt 构造方式（包括工具说明），
+ * 保证计数与实际发送内容一致；上传的图片/文档不计入
+ *
+ * @param body - 中间格式请求体
+ * @returns Promise<number> 输入 token 数
+ */
+export async function countDeepSeekPromptTokens(body: MiddleContent) {
+  return await countTokens(MiddleContentToPrompt(body))
+}
+
+/**
+ * 检查 DeepSeek 账号是否可用（由后台健康检查定期调用）
+ *
+ * 确认令牌有效且能创建会话，不发起补全，创建的会话随后删除。
+ * 令牌失效时与请求流程一样重新登录一次（只有令牌的账号会被标记失效）；
+ * 因鉴权失败被停用的账号检查成功后恢复使用。
+ * 检查期间与普通请求一样占用账号（计入并发数），账号已达到并发上限时本轮跳过。
+ *
+ * @param fileName - 账号文件名
+ * @returns 账号正忙时返回 'skipped'
+ * @throws 账号不可用时抛出错误
+ */
+export async function probeDeepSeekAccount(fileName: string) {
+  const accountEntries = getAccountsWithFiles('deepseek') as Array<{ fileName: string, data: DeepseekAccount }>
+  const account = accountEntries.find(entry => entry.fileName === fileName)?.data
+  if (!account) {
+    throw new Error(`DeepSeek account not found: ${fileName}`)
+  }
+  if (account.invalid) {
+    throw new Error('Account is marked invalid')
+  }
+  account.fileName = fileName
+
+  if (!acquireAccountByName(fileName)) {
+    console.log(`🔍 DeepSeek account ${fileName} is busy, health check skipped`)
+    return 'skipped'
+  }
+
+  try {
+    let token = account.token || await loginDeepseekViaAccount(account)
+    let sessionId: string
+    try {
+      sessionId = await createSession(token)
+    } catch (error) {
+      if (classifyFailure(error) !== 'auth') {
+        throw error
+      }
+      token = await refreshAccountToken(fileName, error)
+      sessionId = await createSession(token)
+    }
+    discardSession(token, sessionId, fileName)
+  } finally {
+    releaseAccount(fileName)
+  }
+
+  if (isAccountDisabled(fileName)) {
+    enableAccount(fileName)
+    console.log(`✅ DeepSeek account ${fileName} re-enabled after a successful health check`)
+  }
+}
+
 /**
  * 注册 DeepSeek 账号到 Selector
  *
  * 在应用启动时由 config plugin 调用，完成：
  * 1. 从配置文件加载 DeepSeek 账号
- * 2. 注册账号到 selector（用于轮询选择）
- * 3. 注册 handler 到 handler registry（用于请求分发）
+ * 2. 注册账号到 selector（按配置的选择策略选择账号）
+ * 3. 注册 handler、token 计数函数与健康检查函数到 handler registry
+ * 4. 按配置启动上游会话的定期清理
  */
 export function RegisterDeepSeekAccounts() {
   console.log('🔍 Registering DeepSeek accounts to selector...')
 
   // 加载账号配置
-  const accounts = getAccountsWithFiles('deepseek') as Array<{ fileName: string }>
+  const accounts = getAccountsWithFiles('deepseek') as Array<{ fileName: string, data: DeepseekAccount }>
   const fileNames = accounts.map(account => account.fileName)
 
   // 注册到 selector（指定支持的模型列表和 owner）
   registerAccount(fileNames, DEEPSEEK_MODELS, 'deepseek')
+  // 已标记失效的账号不再使用
+  for (const account of accounts) {
+    if (account.data.invalid) {
+      disableAccount(account.fileName)
+      console.warn(`⚠️ DeepSeek account ${account.fileName} is marked invalid, skipped`)
+    }
+  }
+  for (const [model, info] of Object.entries(DEEPSEEK_MODEL_INFO)) {
+    registerModelInfo(model, info)
+  }
 
   // 注册 handler 到 registry
   registerProviderHandler('deepseek', DeepSeekHandler)
+  registerProviderTokenCounter('deepseek', countDeepSeekPromptTokens)
+  registerProviderHealthProbe('deepseek', probeDeepSeekAccount)
+
+  // 启动会话定期清理（sweep 模式）
+  startSessionSweep()
 
   console.log(`✅ Registered ${fileNames.length} DeepSeek accounts to selector.`)
 }
@@ -0,0 +1,259 @@
+/**
+ * media.ts - 图片/文档内容读取
+ *
+ * 将要发送的图片与文档在选择账号之前读取（base64 直接解码，URL 下载），继续原会话时
+ * 只读取新增消息中的附件；故障切换换账号发送完整历史时补读其余附件，已读取的内容在各次
+ * 尝试间复用。下载失败不会被当作账号失败。
+ *
+ * URL 下载的限制（config.yaml 中 projects.deepseek.upload）：
+ * - 只允许 http/https，默认拒绝指向内网、回环、链路本地等地址的 URL（包括重定向目标），
+ *   allow_private_urls 为 true 时放行。地址在建立连接时的 DNS 查询中校验，
+ *   连接的就是校验过的地址，避免校验后被 DNS 重绑定到内网
+ * - download_timeout_ms: 单个文件的下载超时
+ * - max_download_bytes: 单个文件的最大字节数
+ *
+ * 任何读取失败都以 400 错误返回给客户端。
+ *
+ * 核心函数：
+ * - loadMediaParts(): 读取消息中尚未读取的图片与文档
+ */
+
+import { lookup } from 'dns'
+import { get as httpGet, type IncomingMessage } from 'http'
+import { get as httpsGet } from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import type { MiddleContentPart, MiddleMessage } from '../../converter'
+import { getDeepseekConfig } from './config'
+
+/** 默认下载超时（毫秒） */
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30_000
+/** 默认单个文件的最大字节数 */
+const DEFAULT_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024
+/** 最多跟随的重定向次数 */
+const MAX_REDIRECTS = 5
+
+/**
+ * 图片或文档片段
+ */
+export type MediaPart = Extract<MiddleContentPart, { type: 'image' | 'file' }>
+
+/**
+ * 已读取的文件内容
+ */
+export type MediaContent = {
+  /** 文件内容 */
+  bytes: Buffer
+  /** MIME 类型 */
+  mediaType: string
+}
+
+/**
+ * 已读取的文件内容（片段 -> 内容）
+ */
+export type MediaContents = Map<MediaPart, MediaContent>
+
+// 不允许下载的地址段（内网、回环、链路本地、组播等）
+const privateAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * 获取下载配置
+ */
+function getDownloadConfig() {
+  const upload = getDeepseekConfig().upload
+  return {
+    timeoutMs: upload?.download_timeout_ms ?? DEFAULT_DOWNLOAD_TIMEOUT_MS,
+    maxBytes: upload?.max_download_bytes ?? DEFAULT_MAX_DOWNLOAD_BYTES,
+    allowPrivate: upload?.allow_private_urls ?? false
+  }
+}
+
+/**
+ * 判断 IP 地址是否属于不允许下载的地址段
+ */
+function isPrivateAddress(address: string) {
+  // IPv4 映射的 IPv6 地址按 IPv4 判断
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+  if (mapped) {
+    return privateAddresses.check(mapped, 'ipv4')
+  }
+  return privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * 校验解析结果的 DNS 查询
+ *
+ * 作为下载请求的 lookup 使用：解析到不允许的地址时连接失败，
+ * 否则连接的就是这次解析并校验过的地址
+ */
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+    if (addresses.some(item => isPrivateAddress(item.address))) {
+      callback(new Error('private or loopback addresses are not allowed'), '')
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family)
+    }
+  })
+}
+
+/**
+ * 校验下载地址
+ *
+ * 主机名在连接时由 checkedLookup 校验，这里只校验协议与 IP 字面量
+ *
+ * @throws 协议不是 http/https，或主机是不允许的 IP 时抛出错误
+ */
+function assertDownloadable(url: URL, allowPrivate: boolean) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`unsupported protocol ${url.protocol}`)
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (!allowPrivate && isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error('private or loopback addresses are not allowed')
+  }
+}
+
+/**
+ * 发起 GET 请求（不跟随重定向）
+ */
+function requestMedia(url: URL, allowPrivate: boolean, signal: AbortSignal) {
+  const get = url.protocol === 'https:' ? httpsGet : httpGet
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    get(url, { signal, ...(allowPrivate ? {} : { lookup: checkedLookup }) }, resolve).on('error', reject)
+  })
+}
+
+/**
+ * 读取响应体，超过最大字节数时中止
+ */
+async function readLimitedBody(response: IncomingMessage, maxBytes: number) {
+  const declared = Number(response.headers['content-length'])
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    response.destroy()
+    throw new Error(`file exceeds ${maxBytes} bytes`)
+  }
+
+  const chunks: Buffer[] = []
+  let total = 0
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.byteLength
+    if (total > maxBytes) {
+      response.destroy()
+      throw new Error(`file exceeds ${maxBytes} bytes`)
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 下载文件
+ *
+ * 手动跟随重定向，每一跳都重新校验地址
+ */
+async function downloadMedia(source: string, mediaType: string | undefined): Promise<MediaContent> {
+  const { timeoutMs, maxBytes, allowPrivate } = getDownloadConfig()
+  const signal = AbortSignal.timeout(timeoutMs)
+
+  try {
+    let url = new URL(source)
+    for (let redirects = 0; ; redirects++) {
+      assertDownloadable(url, allowPrivate)
+      const response = await requestMedia(url, allowPrivate, signal)
+      const status = response.statusCode ?? 0
+
+      const location = response.headers.location
+      if (status >= 300 && status < 400 && location) {
+        response.destroy()
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error('too many redirects')
+        }
+        url = new URL(location, url)
+        continue
+      }
+
+      if (status < 200 || status >= 300) {
+        response.destroy()
+        throw new Error(`status ${status}`)
+      }
+      return {
+        bytes: await readLimitedBody(response, maxBytes),
+        mediaType: mediaType || response.headers['content-type']?.split(';')[0] || 'application/octet-stream'
+      }
+    }
+  } catch (error) {
+    // 超时中止时统一抛出 TimeoutError
+    throw signal.aborted ? signal.reason : error
+  }
+}
+
+/**
+ * 读取单个图片/文档片段
+ *
+ * @throws 读取失败时抛出 400 错误
+ */
+async function readMediaPart(part: MediaPart): Promise<MediaContent> {
+  const source = part.source
+  if (source.type === 'base64') {
+    return { bytes: Buffer.from(source.data, 'base64'), mediaType: source.mediaType }
+  }
+
+  try {
+    return await downloadMedia(source.url, source.mediaType)
+  } catch (error) {
+    const reason = (error as Error)?.name === 'TimeoutError' ? 'timed out' : (error as Error)?.message || String(error)
+    throw createError({ statusCode: 400, statusMessage: `Failed to download ${part.type}: ${source.url} (${reason})` })
+  }
+}
+
+/**
+ * 读取消息中尚未读取的图片与文档
+ *
+ * @param messages - 要发送的消息
+ * @param contents - 已读取的内容（新读取的内容会写入其中）
+ * @returns Promise<MediaContents> 片段与内容的映射（上传时按片段取用）
+ * @throws 任一片段读取失败时抛出 400 错误
+ */
+export async function loadMediaParts(messages: MiddleMessage[], contents: MediaContents = new Map()): Promise<MediaContents> {
+  for (const message of messages) {
+    if (typeof message.content === 'string') continue
+    for (const part of message.content) {
+      if ((part.type === 'image' || part.type === 'file') && !contents.has(part)) {
+        contents.set(part, await readMediaPart(part))
+      }
+    }
+  }
+  return contents
+}
@@ -0,0 +1,217 @@
+/**
+ * session.ts - DeepSeek 会话复用缓存
+ *
+ * 多轮对话中客户端每次都会发送完整历史。本模块在每轮对话结束后，
+ * 以「请求消息 + 助手回复」的指纹记录对应的上游会话（账号、chat_session_id、最后一条消息 ID）。
+ * 下一轮请求的历史前缀命中指纹时，即可在原会话上继续并只发送新增的消息，
+ * 省去创建会话的开销与重复发送历史的 token，同时保持该对话使用同一账号。
+ *
+ * 指纹计算时会做归一化，以兼容不同协议对同一段历史的不同表示：
+ * - 合并连续的同角色消息（如 Anthropic 将文本与 tool_use 拆成多条）
+ * - 忽略工具调用 ID 与推理内容，参数按 JSON 重新序列化
+ * - 去除助手回复开头的 <think> 标签（openai.think_tags 开启时由客户端回传）
+ *
+ * 核心函数：
+ * - findReusableSession(): 查找可继续的会话，并返回需要新发送的消息
+ * - rememberSession(): 记录本轮对话结束后的会话状态
+ * - isSessionCached(): 判断会话是否仍在缓存中（清理时跳过）
+ */
+
+import { createHash } from 'crypto'
+import { getMessageText, type MiddleContent, type MiddleMessage } from '../../converter'
+import { getDeepseekConfig } from './config'
+
+/** 缓存默认有效期（秒） */
+const DEFAULT_TTL_SECONDS = 1800
+/** 缓存默认最大条目数 */
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * 缓存的上游会话
+ */
+export type CachedSession = {
+  /** 产生该会话的账号文件名 */
+  fileName: string
+  /** 上游 chat_session_id */
+  sessionId: string
+  /** 最后一条助手消息 ID（作为下一轮的 parent_message_id） */
+  parentMessageId: number
+  /** 过期时间戳（毫秒） */
+  expiresAt: number
+}
+
+/**
+ * 可继续的会话与需要新发送的消息
+ */
+export type ReusableSession = CachedSession & {
+  /** 历史前缀之后新增的消息 */
+  messages: MiddleMessage[]
+}
+
+// 会话缓存（指纹 -> 会话），按写入顺序淘汰
+const sessions = new Map<string, CachedSession>()
+
+/**
+ * 获取会话复用配置
+ */
+function getSessionReuseConfig() {
+  const config = getDeepseekConfig().session_reuse
+  return {
+    enabled: config?.enabled ?? true,
+    ttlMs: (config?.ttl_seconds ?? DEFAULT_TTL_SECONDS) * 1000,
+    maxEntries: config?.max_entries ?? DEFAULT_MAX_ENTRIES
+  }
+}
+
+/**
+ * 归一化工具调用参数
+ */
+function normalizeArguments(args: string) {
+  try {
+    return JSON.stringify(JSON.parse(args || '{}'))
+  } catch {
+    return args
+  }
+}
+
+/**
+ * 归一化消息列表，用于计算指纹
+ */
+function normalizeMessages(messages: MiddleMessage[]) {
+  const normalized: Array<{ role: string, texts: string[], media: unknown[], calls: string[] }> = []
+
+  for (const message of messages) {
+    let text = getMessageText(message.content)
+    if (message.role === 'assistant') {
+      text = text.replace(/^<think>[\s\S]*?<\/think>\s*/, '')
+    }
+    if (message.role === 'tool' && !text) {
+      // 结构化的工具结果保存在 tool_calls 中（与 prompt 渲染一致）
+      text = (message.tool_calls ?? []).map(call => normalizeArguments(call.function.arguments)).join('\n')
+    }
+
+    const media = typeof message.content === 'string' ? [] : message.content.filter(part => part.type !== 'text')
+    const calls = message.role === 'tool'
+      ? []
+      : (message.tool_calls ?? []).map(call => `${call.function.name}:${normalizeArguments(call.function.arguments)}`)
+
+    // 合并连续的同角色消息（工具结果各自独立）
+    let target = normalized[normalized.length - 1]
+    if (!target || target.role !== message.role || message.role === 'tool') {
+      target = { role: message.role, texts: [], media: [], calls: [] }
+      normalized.push(target)
+    }
+    if (text.trim()) target.texts.push(text.trim())
+    target.media.push(...media)
+    target.calls.push(...calls)
+  }
+
+  return normalized
+}
+
+/**
+ * 计算对话指纹
+ *
+ * 模型、工具定义、工具选择与输出格式也计入指纹，任一变化时不复用会话
+ * （继续会话时只发送新增消息，不会重新发送工具与格式说明）
+ */
+function fingerprintConversation(content: MiddleContent, messages: MiddleMessage[]) {
+  const payload = JSON.stringify({
+    model: content.model,
+    tools: content.tools?.map(tool => [tool.function.name, tool.function.parameters ?? null]) ?? [],
+    toolChoice: content.tool_choice ?? null,
+    responseFormat: content.response_format ?? null,
+    messages: normalizeMessages(messages)
+  })
+  return createHash('sha256').update(payload).digest('hex')
+}
+
+/**
+ * 清理过期条目
+ */
+function pruneSessions(now: number) {
+  for (const [key, session] of sessions) {
+    if (session.expiresAt <= now) {
+      sessions.delete(key)
+    }
+  }
+}
+
+/**
+ * 判断上游会话是否仍在复用缓存中
+ *
+ * @param sessionId - chat_session_id
+ */
+export function isSessionCached(sessionId: string) {
+  const now = Date.now()
+  for (const session of sessions.values()) {
+    if (session.sessionId === sessionId && session.expiresAt > now) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * 查找可继续的会话
+ *
+ * 以最后一条助手消息为界，前缀命中缓存且之后有新增消息时返回该会话
+ *
+ * @param content - 中间格式请求
+ * @returns 可继续的会话，未命中时返回 null
+ */
+export function findReusableSession(content: MiddleContent): ReusableSession | null {
+  if (!getSessionReuseConfig().enabled) {
+    return null
+  }
+
+  const messages = content.messages
+  let lastAssistant = -1
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index]!.role === 'assistant') {
+      lastAssistant = index
+      break
+    }
+  }
+  if (lastAssistant === -1 || lastAssistant === messages.length - 1) {
+    return null
+  }
+
+  const now = Date.now()
+  pruneSessions(now)
+
+  const session = sessions.get(fingerprintConversation(content, messages.slice(0, lastAssistant + 1)))
+  if (!session) {
+    return null
+  }
+  return { ...session, messages: messages.slice(lastAssistant + 1) }
+}
+
+/**
+ * 记录本轮对话结束后的会话状态
+ *
+ * @param content - 中间格式请求（包含完整历史）
+ * @param reply - 返回给客户端的助手回复
+ * @param session - 上游会话信息
+ */
+export function rememberSession(
+  content: MiddleContent,
+  reply: MiddleMessage,
+  session: Omit<CachedSession, 'expiresAt'>
+) {
+  const config = getSessionReuseConfig()
+  if (!config.enabled) {
+    return
+  }
+
+  const key = fingerprintConversation(content, [...content.messages, reply])
+  sessions.delete(key)
+  sessions.set(key, { ...session, expiresAt: Date.now() + config.ttlMs })
+
+  // 超出上限时淘汰最早写入的条目
+  while (sessions.size > config.maxEntries) {
+    const oldest = sessions.keys().next().value
+    if (oldest === undefined) break
+    sessions.delete(oldest)
+  }
+}
@@ -60,3 +60,46 @@ export const countTokens = async (text: string): Promise<number> => {
   const encoding = tokenizer.encode(text ?? '')
   return encoding.ids.length
 }
+
+/**
+ * 按 token 上限截断文本
+ *
+ * 不计入特殊 token，结果为原文的最长前缀（按字符二分查找，避免解码带来的文本差异）
+ * @param text 要截断的文本
+ * @param limit 允许的最大 token 数
+ * @returns 截断后的文本、其 token 数以及是否发生截断
+ */
+export const truncateToTokenLimit = async (text: string, limit: number) => {
+  const tokenizer = await getTokenizer()
+  const count = (value: string) => tokenizer.encode(value, { add_special_tokens: false }).ids.length
+
+  const total = count(text)
+  if (total <= limit) {
+    return { text, tokens: total, truncated: false }
+  }
+  if (limit <= 0) {
+    return { text: '', tokens: 0, truncated: true }
+  }
+
+  // 二分查找不超过上限的最长前缀
+  let low = 0
+  let high = text.length
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (count(text.slice(0, mid)) <= limit) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  // 避免截断在代理对中间
+  let end = low
+  const last = text.charCodeAt(end - 1)
+  if (last >= 0xD800 && last <= 0xDBFF) {
+    end -= 1
+  }
+
+  const truncated = text.slice(0, end)
+  return { text: truncated, tokens: count(truncated), truncated: true }
+}
@@ -1,19 +1,27 @@
 /**
  * selector.ts - 账号选择器模块
  *
- * 本模块实现了一个基于轮询的账号选择器，用于：
+ * 本模块实现了账号选择器，用于：
  * 1. 注册账号到指定模型的可用账号列表
- * 2. 按轮询顺序选择可用账号
- * 3. 管理账号的使用状态和临时跳过状态
- * 4. 记录模型的元数据（所有者、创建时间）
+ * 2. 按配置的选择策略（见 strategy.ts，默认轮询）选择可用账号
+ * 3. 管理账号的并发数、临时跳过状态和停用状态（并跳过健康检查失败的账号）
+ * 4. 记录模型的元数据（所有者、创建时间、展示名称、token 上限）
+ *
+ * 账号文件中的可选字段：
+ * - weight: 加权随机策略的权重（默认 1）
+ * - max_concurrency: 同时进行的请求数上限（默认 1，即一个账号同一时间只处理一个请求）
  *
  * 核心功能：
  * - registerAccount(): 注册账号到模型
- * - selectAccount(): 选择一个可用账号（轮询算法）
+ * - selectAccount(): 选择一个可用账号（按选择策略，可优先指定账号）
+ * - acquireAccountByName(): 占用指定账号（只受并发上限限制，用于健康检查）
  * - releaseAccount(): 释放账号（标记为可用）
  * - skipAccount(): 临时跳过账号（如遇到错误时）
  * - clearSkip(): 清除跳过状态
+ * - disableAccount(): 停用账号（如令牌失效且无法重新登录时）
+ * - enableAccount(): 恢复被停用的账号（如重新登录成功后）
  * - getModelOwner(): 获取模型所属的提供商
+ * - registerModelInfo(): 补充模型的描述信息（用于模型列表端点）
  *
  * 使用场景：
  * - 多账号负载均衡
@@ -21,23 +29,39 @@
  * - 按模型分配不同账号池
  */
 
+import { getAccountsWithFiles, type AccountEntry } from './accounts'
+import { isAccountHealthy } from './accountstate'
+import { resolveSelectionStrategy } from './strategy'
+
 // 账号类型定义
 type Account = {
-  inUse: boolean // 账号是否正在使用中
+  inFlight: number // 进行中的请求数
+  maxConcurrency: number // 同时进行的请求数上限
+  lastUsedAt: number // 最后一次被选中的时间戳（从未使用为 0）
+  weight: number // 加权随机策略的权重
+  disabled: boolean // 账号是否已停用（不再被选择）
   fileName: string // 账号文件名
 }
 
 // 模型状态类型定义
 type ModelState = {
-  order: string[] // 账号轮询顺序
-  cursor: number // 当前轮询位置
+  order: string[] // 账号注册顺序
+  cursor: number // 当前轮询位置（上一次选中账号的下一个位置）
   skippedUntil: Map<string, number> // 账号跳过时间映射（文件名 -> 跳过截止时间戳）
 }
 
+// 模型描述信息类型定义
+type ModelInfo = {
+  displayName?: string // 展示名称
+  description?: string // 模型描述
+  inputTokenLimit?: number // 输入 token 上限
+  outputTokenLimit?: number // 输出 token 上限
+}
+
 // 模型元数据类型定义
-type ModelMeta = {
+type ModelMeta = ModelInfo & {
   owner: string // 模型所有者
-  created: number // 创建时间戳
+  created: number // 创建时间戳（毫秒）
 }
 
 // 已注册的账号列表
@@ -69,16 +93,40 @@ function ensureModelState(model: string): ModelState {
   return state
 }
 
+/**
+ * 读取账号文件中的选择设置
+ * @param owner 账号所属的项目
+ * @param fileName 账号文件名
+ * @returns 权重与并发上限（未配置或无效时使用默认值）
+ */
+function readAccountSettings(owner: string, fileName: string) {
+  const entries = getAccountsWithFiles(owner) as AccountEntry[]
+  const data = (entries.find(entry => entry.fileName === fileName)?.data ?? {}) as {
+    weight?: unknown
+    max_concurrency?: unknown
+  }
+  return {
+    weight: typeof data.weight === 'number' && data.weight >= 0 ? data.weight : 1,
+    maxConcurrency: typeof data.max_concurrency === 'number' && data.max_concurrency >= 1
+      ? Math.floor(data.max_concurrency)
+      : 1
+  }
+}
+
 /**
  * 添加或更新账号
- * 如果账号已存在则不做任何操作
+ * 如果账号已存在则只更新选择设置
  * @param account 账号文件名
+ * @param owner 账号所属的项目
  */
-function upsertAccount(account: string) {
-  if (accountMap.has(account)) {
+function upsertAccount(account: string, owner: string) {
+  const settings = readAccountSettings(owner, account)
+  const existing = accountMap.get(account)
+  if (existing) {
+    Object.assign(existing, settings)
     return
   }
-  const item: Account = { inUse: false, fileName: account }
+  const item: Account = { inFlight: 0, lastUsedAt: 0, disabled: false, fileName: account, ...settings }
   registeredAccounts.push(item)
   accountMap.set(account, item)
 }
@@ -93,7 +141,7 @@ function upsertAccount(account: string) {
 function registerAccount(accounts: string[], models: string[], owner: string) {
   // 确保所有账号都已注册
   for (const account of accounts) {
-    upsertAccount(account)
+    upsertAccount(account, owner)
   }
   // 将账号添加到每个模型的轮询列表
   for (const model of models) {
@@ -130,49 +178,92 @@ function isSkipped(state: ModelState, fileName: string, now: number) {
   return true
 }
 
+/**
+ * 检查账号当前是否可被选择
+ * 达到并发上限、被临时跳过、已停用或健康检查失败的账号不可选择
+ * @param state 模型状态
+ * @param account 账号对象
+ * @param now 当前时间戳
+ * @returns 可被选择返回 true，否则返回 false
+ */
+function isSelectable(state: ModelState, account: Account, now: number) {
+  if (account.inFlight >= account.maxConcurrency) return false
+  if (account.disabled) return false
+  if (!isAccountHealthy(account.fileName)) return false
+  return !isSkipped(state, account.fileName, now)
+}
+
+/**
+ * 占用账号
+ * 增加进行中的请求数并记录使用时间
+ * @param account 账号对象
+ * @param now 当前时间戳
+ * @returns 账号对象
+ */
+function acquireAccount(account: Account, now: number) {
+  account.inFlight += 1
+  account.lastUsedAt = now
+  return account
+}
+
 /**
  * 选择一个可用的账号
- * 使用轮询算法选择下一个可用的账号（跳过正在使用和被临时跳过的账号）
+ * 从可被选择的账号中按模型配置的选择策略选出一个（跳过达到并发上限、被临时跳过、已停用和健康检查失败的账号）
  * @param model 模型名称
+ * @param preferred 优先使用的账号文件名（如会话复用时的粘性账号），不可用时按选择策略选择
  * @returns 可用的账号对象，如果没有可用账号则返回 null
  */
-function selectAccount(model: string): Account | null {
+function selectAccount(model: string, preferred?: string): Account | null {
   const state = ensureModelState(model)
   if (state.order.length === 0) return null
 
   const now = Date.now()
-  const total = state.order.length
-  let scanned = 0
-
-  // 轮询查找可用账号
-  while (scanned < total) {
-    const index = state.cursor % total
-    const fileName = state.order[index]!
-    state.cursor = (index + 1) % total
-    scanned += 1
-
-    const account = accountMap.get(fileName)
-    if (!account) continue
-    if (account.inUse) continue
-    if (isSkipped(state, fileName, now)) continue
-
-    // 标记账号为使用中
-    account.inUse = true
-    return account
+
+  // 优先使用指定账号
+  if (preferred && state.order.includes(preferred)) {
+    const account = accountMap.get(preferred)
+    if (account && isSelectable(state, account, now)) {
+      return acquireAccount(account, now)
+    }
   }
 
-  return null
+  const candidates = state.order
+    .map(fileName => accountMap.get(fileName))
+    .filter((account): account is Account => !!account && isSelectable(state, account, now))
+  if (candidates.length === 0) return null
+
+  // 按选择策略选出账号（策略只能从候选账号中选择）
+  const strategy = resolveSelectionStrategy(model, modelMeta.get(model)?.owner)
+  const selected = strategy(candidates, { model, order: [...state.order], cursor: state.cursor })
+  const account = candidates.find(candidate => candidate.fileName === selected?.fileName)
+  if (!account) return null
+
+  state.cursor = (state.order.indexOf(account.fileName) + 1) % state.order.length
+  return acquireAccount(account, now)
+}
+
+/**
+ * 占用指定账号
+ * 只检查并发上限，不检查停用、跳过与健康状态（健康检查需要检查这些账号以便恢复）
+ * @param fileName 账号文件名
+ * @returns 是否占用成功，账号不存在或已达到并发上限时返回 false
+ */
+function acquireAccountByName(fileName: string) {
+  const account = accountMap.get(fileName)
+  if (!account || account.inFlight >= account.maxConcurrency) return false
+  acquireAccount(account, Date.now())
+  return true
 }
 
 /**
  * 释放账号
- * 将账号标记为可用状态
+ * 减少账号进行中的请求数
  * @param fileName 账号文件名
  */
 function releaseAccount(fileName: string) {
   const account = accountMap.get(fileName)
   if (!account) return
-  account.inUse = false
+  account.inFlight = Math.max(0, account.inFlight - 1)
 }
 
 /**
@@ -198,15 +289,56 @@ function clearSkip(model: string, fileName: string) {
   state.skippedUntil.delete(fileName)
 }
 
+/**
+ * 停用账号
+ * 停用后所有模型都不会再选择该账号
+ * @param fileName 账号文件名
+ */
+function disableAccount(fileName: string) {
+  const account = accountMap.get(fileName)
+  if (!account) return
+  account.disabled = true
+}
+
+/**
+ * 恢复被停用的账号
+ * @param fileName 账号文件名
+ */
+function enableAccount(fileName: string) {
+  const account = accountMap.get(fileName)
+  if (!account) return
+  account.disabled = false
+}
+
+/**
+ * 判断账号是否已停用
+ * @param fileName 账号文件名
+ * @returns 账号已停用返回 true
+ */
+function isAccountDisabled(fileName: string) {
+  return accountMap.get(fileName)?.disabled ?? false
+}
+
+/**
+ * 补充模型的描述信息
+ * 只更新已注册模型，未注册的模型会被忽略
+ * @param model 模型名称
+ * @param info 描述信息
+ */
+function registerModelInfo(model: string, info: ModelInfo) {
+  const meta = modelMeta.get(model)
+  if (!meta) return
+  Object.assign(meta, info)
+}
+
 /**
  * 获取所有已注册的模型
  * @returns 模型信息数组
  */
 function getRegisteredModels() {
   return Array.from(modelMeta.entries()).map(([id, meta]) => ({
-    id,
-    owner: meta.owner,
-    created: meta.created
+    ...meta,
+    id
   }))
 }
 
@@ -225,11 +357,16 @@ function getModelOwner(model: string): string | null {
 export {
   registerAccount,
   selectAccount,
+  acquireAccountByName,
   releaseAccount,
   skipAccount,
   clearSkip,
+  disableAccount,
+  enableAccount,
+  isAccountDisabled,
   getRegisteredModels,
-  getModelOwner
+  getModelOwner,
+  registerModelInfo
 }
 // 导出类型定义
-export type { Account }
+export type { Account, ModelInfo }
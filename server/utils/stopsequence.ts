@@ -0,0 +1,113 @@
+/**
+ * stopsequence.ts - 停止序列匹配模块
+ *
+ * 网页版模型不支持 stop 参数，本模块在输出流上模拟：
+ * 逐段输入模型输出文本，在首个停止序列处截断。
+ * 停止序列可能跨越多个 chunk，因此结尾处可能是停止序列前缀的部分会暂存到下一段确认。
+ *
+ * 核心函数：
+ * - normalizeStopSequences(): 统一各协议的 stop 参数格式
+ * - createStopSequenceMatcher(): 创建流式停止序列匹配器
+ */
+
+/**
+ * 匹配器单次输入的结果
+ */
+export type StopSequenceResult = {
+  /** 可以立即输出的文本 */
+  text: string
+  /** 命中的停止序列（未命中时为 undefined） */
+  matched?: string
+}
+
+/**
+ * 统一 stop 参数格式
+ *
+ * 兼容字符串与字符串数组，过滤空字符串
+ *
+ * @param stop - 原始 stop 参数
+ * @returns 停止序列数组，没有有效停止序列时返回 undefined
+ */
+export function normalizeStopSequences(stop: unknown): string[] | undefined {
+  const list = typeof stop === 'string' ? [stop] : Array.isArray(stop) ? stop : []
+  const sequences = list.filter((item): item is string => typeof item === 'string' && item.length > 0)
+  return sequences.length ? sequences : undefined
+}
+
+/**
+ * 计算文本结尾与停止序列开头的最长重叠长度
+ */
+function partialStopLength(text: string, sequence: string) {
+  const max = Math.min(text.length, sequence.length - 1)
+  for (let length = max; length > 0; length--) {
+    if (sequence.startsWith(text.slice(-length))) {
+      return length
+    }
+  }
+  return 0
+}
+
+/**
+ * 创建流式停止序列匹配器
+ *
+ * @param stop - 停止序列列表
+ *
+ * @example
+ * ```ts
+ * const matcher = createStopSequenceMatcher(['\n\n'])
+ * const { text, matched } = matcher.push(delta)
+ * if (matched) { ...停止读取上游... }
+ * const rest = matcher.flush()
+ * ```
+ */
+export function createStopSequenceMatcher(stop: string[]) {
+  // 暂存的可能是停止序列前缀的文本
+  let pending = ''
+  let stopped = false
+
+  /**
+   * 输入一段文本
+   *
+   * 命中后不再接受输入
+   */
+  const push = (text: string): StopSequenceResult => {
+    if (stopped) {
+      return { text: '' }
+    }
+
+    const buffer = pending + text
+
+    // 查找最早出现的停止序列
+    let cut = -1
+    let matched: string | undefined
+    for (const sequence of stop) {
+      const index = buffer.indexOf(sequence)
+      if (index !== -1 && (cut === -1 || index < cut)) {
+        cut = index
+        matched = sequence
+      }
+    }
+
+    if (matched !== undefined) {
+      stopped = true
+      pending = ''
+      return { text: buffer.slice(0, cut), matched }
+    }
+
+    // 暂存可能是停止序列前缀的结尾
+    const keep = Math.max(0, ...stop.map(sequence => partialStopLength(buffer, sequence)))
+    pending = buffer.slice(buffer.length - keep)
+    return { text: buffer.slice(0, buffer.length - keep) }
+  }
+
+  /**
+   * 输入结束，返回暂存的剩余文本
+   */
+  const flush = () => {
+    const rest = stopped ? '' : pending
+    pending = ''
+    return rest
+  }
+
+  return { push, flush }
+}
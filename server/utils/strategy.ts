@@ -0,0 +1,175 @@
+/**
+ * strategy.ts - 账号选择策略模块
+ *
+ * 账号选择器（selector.ts）先过滤出当前可用的账号（未达到并发上限、未被跳过、未停用、健康检查未失败），
+ * 再交给选择策略决定使用哪一个。内置策略：
+ * - round_robin: 轮询（默认）
+ * - least_recently_used: 最久未使用的账号优先
+ * - least_in_flight: 进行中请求最少的账号优先
+ * - weighted_random: 按账号文件中的 weight 加权随机
+ * - fill_first: 按注册顺序使用第一个可用账号，用满后才使用下一个
+ *
+ * 策略可在 config.yaml 的 selector 中按模型或按提供商配置（模型优先），
+ * 提供商也可以通过 registerSelectionStrategy() 注册自定义策略后在配置中引用。
+ *
+ * 核心函数：
+ * - registerSelectionStrategy(): 注册选择策略
+ * - resolveSelectionStrategy(): 按配置获取模型使用的选择策略
+ */
+
+import { getConfig } from './config'
+
+/** 默认选择策略 */
+const DEFAULT_STRATEGY = 'round_robin'
+
+/**
+ * 候选账号
+ */
+export type SelectionCandidate = {
+  /** 账号文件名 */
+  fileName: string
+  /** 进行中的请求数 */
+  inFlight: number
+  /** 最后一次被选中的时间（毫秒时间戳，从未使用为 0） */
+  lastUsedAt: number
+  /** 加权随机的权重（账号文件中的 weight，默认 1） */
+  weight: number
+}
+
+/**
+ * 选择上下文
+ */
+export type SelectionContext = {
+  /** 模型名称 */
+  model: string
+  /** 模型的账号顺序（注册顺序） */
+  order: string[]
+  /** 轮询位置（上一次选中账号在 order 中的下一个位置） */
+  cursor: number
+}
+
+/**
+ * 选择策略
+ *
+ * @param candidates - 当前可用的账号（按注册顺序排列，至少一个）
+ * @param context - 选择上下文
+ * @returns 选中的账号（必须是 candidates 之一），返回 null 时视为没有可用账号
+ */
+export type SelectionStrategy = (candidates: SelectionCandidate[], context: SelectionContext) => SelectionCandidate | null
+
+/**
+ * 轮询：从轮询位置开始的第一个可用账号
+ */
+const roundRobin: SelectionStrategy = (candidates, { order, cursor }) => {
+  return candidates.find(candidate => order.indexOf(candidate.fileName) >= cursor) ?? candidates[0]!
+}
+
+/**
+ * 在满足条件的最优账号中按轮询选择，避免总是落在同一个账号上
+ */
+function pickBest(candidates: SelectionCandidate[], context: SelectionContext, score: (candidate: SelectionCandidate) => number) {
+  const best = Math.min(...candidates.map(score))
+  return roundRobin(candidates.filter(candidate => score(candidate) === best), context)
+}
+
+/**
+ * 最久未使用的账号优先
+ */
+const leastRecentlyUsed: SelectionStrategy = (candidates, context) => {
+  return pickBest(candidates, context, candidate => candidate.lastUsedAt)
+}
+
+/**
+ * 进行中请求最少的账号优先
+ */
+const leastInFlight: SelectionStrategy = (candidates, context) => {
+  return pickBest(candidates, context, candidate => candidate.inFlight)
+}
+
+/**
+ * 按权重加权随机（权重为 0 的账号只在没有其他账号时使用）
+ */
+const weightedRandom: SelectionStrategy = (candidates) => {
+  const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0)
+  if (total <= 0) {
+    return candidates[Math.floor(Math.random() * candidates.length)]!
+  }
+
+  let point = Math.random() * total
+  for (const candidate of candidates) {
+    point -= candidate.weight
+    if (point < 0) return candidate
+  }
+  return candidates.findLast(candidate => candidate.weight > 0)!
+}
+
+/**
+ * 按注册顺序使用第一个可用账号
+ */
+const fillFirst: SelectionStrategy = (candidates) => {
+  return candidates[0]!
+}
+
+/**
+ * 选择策略注册表
+ *
+ * key: 策略名称（config.yaml 中引用的名称）
+ * value: 对应的选择策略
+ */
+const selectionStrategies = new Map<string, SelectionStrategy>([
+  ['round_robin', roundRobin],
+  ['least_recently_used', leastRecentlyUsed],
+  ['least_in_flight', leastInFlight],
+  ['weighted_random', weightedRandom],
+  ['fill_first', fillFirst]
+])
+
+// 已提示过的未知策略名称（避免每次选择都输出警告）
+const warnedStrategies = new Set<string>()
+
+/**
+ * 注册选择策略
+ *
+ * 同名策略会被覆盖（包括内置策略）
+ *
+ * @param name - 策略名称
+ * @param strategy - 选择策略
+ *
+ * @example
+ * ```ts
+ * // 在 provider 的注册函数中
+ * registerSelectionStrategy('deepseek_sticky', (candidates, context) => candidates[0]!)
+ * ```
+ */
+export function registerSelectionStrategy(name: string, strategy: SelectionStrategy) {
+  if (!name) return
+  selectionStrategies.set(name, strategy)
+}
+
+/**
+ * 按配置获取模型使用的选择策略
+ *
+ * 依次查找 selector.models[model]、selector.providers[owner]、selector.strategy，
+ * 均未配置或策略未注册时使用轮询
+ *
+ * @param model - 模型名称
+ * @param owner - 模型所属的提供商
+ */
+export function resolveSelectionStrategy(model: string, owner?: string | null): SelectionStrategy {
+  const config = getConfig()?.selector
+  const name = config?.models?.[model]
+    ?? (owner ? config?.providers?.[owner] : undefined)
+    ?? config?.strategy
+    ?? DEFAULT_STRATEGY
+
+  const strategy = selectionStrategies.get(name)
+  if (strategy) {
+    return strategy
+  }
+
+  if (!warnedStrategies.has(name)) {
+    warnedStrategies.add(name)
+    console.warn(`⚠️ Unknown selection strategy "${name}" for model ${model}, falling back to ${DEFAULT_STRATEGY}`)
+  }
+  return roundRobin
+}
@@ -0,0 +1,189 @@
+/**
+ * structured.ts - 结构化输出模块
+ *
+ * 网页版模型不支持 response_format，本模块通过提示词模拟并在输出后校验：
+ * 1. 将 JSON Schema 与输出要求注入 prompt
+ * 2. 去除模型输出中的 Markdown 代码块标记
+ * 3. 按 Schema 校验输出，失败时生成重新提问的提示词
+ *
+ * 结构化输出的来源：
+ * - response_format: json_schema / json_object（OpenAI、Gemini responseSchema、Responses text.format）
+ * - 强制调用单个工具（如 Anthropic tool_choice: {type: "tool"}），校验该工具的参数
+ *
+ * 核心函数：
+ * - resolveStructuredOutput(): 解析请求的结构化输出要求
+ * - buildResponseFormatPrompt(): 构造输出格式提示词
+ * - validateStructuredOutput(): 校验模型输出
+ * - buildStructuredRetryPrompt(): 构造校验失败后的重新提问
+ */
+
+import * as z from 'zod'
+import { getConfig } from './config'
+import type { MiddleContent } from './converter'
+import { createToolCallParser } from './toolcall'
+
+/** 默认最大尝试次数（包含首次请求） */
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * 结构化输出要求
+ */
+export type StructuredOutputSpec = {
+  /** 校验对象：content 为正文 JSON，tool_call 为强制调用工具的参数 */
+  target: 'content' | 'tool_call'
+  /** Schema 名称或工具名称 */
+  name?: string
+  /** JSON Schema（json_object 模式下为空） */
+  schema?: Record<string, unknown>
+}
+
+/**
+ * 校验结果
+ */
+export type StructuredOutputResult
+  = | { ok: true, text: string }
+    | { ok: false, text: string, error: string }
+
+/**
+ * 解析请求的结构化输出要求
+ *
+ * @param content - 中间格式请求
+ * @returns 结构化输出要求，不需要时返回 null
+ */
+export function resolveStructuredOutput(content: MiddleContent): StructuredOutputSpec | null {
+  const format = content.response_format
+  if (format?.type === 'json_schema' || format?.type === 'json_object') {
+    return { target: 'content', name: format.name, schema: format.schema }
+  }
+
+  // 强制调用指定工具时校验其参数
+  const choice = content.tool_choice
+  if (choice && typeof choice === 'object') {
+    const tool = content.tools?.find(item => item.function.name === choice.function.name)
+    if (tool) {
+      return { target: 'tool_call', name: tool.function.name, schema: tool.function.parameters }
+    }
+  }
+
+  return null
+}
+
+/**
+ * 获取结构化输出的最大尝试次数
+ *
+ * 由 config.yaml 中的 structured_output.max_attempts 配置
+ */
+export function getStructuredOutputMaxAttempts() {
+  const attempts = Math.floor(Number(getConfig()?.structured_output?.max_attempts))
+  return Number.isFinite(attempts) && attempts > 0 ? attempts : DEFAULT_MAX_ATTEMPTS
+}
+
+/**
+ * 构造输出格式提示词
+ *
+ * @param content - 中间格式请求
+ * @returns 提示词，未要求 JSON 输出时返回空字符串
+ */
+export function buildResponseFormatPrompt(content: MiddleContent): string {
+  const format = content.response_format
+  const tail = 'Output only the JSON itself, without Markdown code fences or any other text.'
+
+  if (format?.type === 'json_schema') {
+    const title = format.name ? ` (${format.name})` : ''
+    return [
+      `Reply with a single JSON value that conforms to the following JSON Schema${title}:`,
+      JSON.stringify(format.schema ?? {}, null, 2),
+      tail
+    ].join('\n')
+  }
+  if (format?.type === 'json_object') {
+    return `Reply with a single valid JSON object. ${tail}`
+  }
+  return ''
+}
+
+/**
+ * 去除包裹整段输出的 Markdown 代码块标记
+ *
+ * @param text - 模型输出
+ */
+export function stripCodeFences(text: string) {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/^```[\w-]*[ \t]*\n([\s\S]*?)\n?```$/)
+  return fenced ? fenced[1]!.trim() : trimmed
+}
+
+/**
+ * 按 JSON Schema 校验值
+ *
+ * @returns 错误描述，通过时返回 null
+ */
+function validateAgainstSchema(value: unknown, schema: Record<string, unknown> | undefined): string | null {
+  if (!schema) {
+    return value && typeof value === 'object' && !Array.isArray(value) ? null : 'expected a JSON object'
+  }
+
+  let validator: z.ZodType
+  try {
+    validator = z.fromJSONSchema(schema as z.core.JSONSchema.JSONSchema)
+  } catch {
+    // 无法转换的 Schema 只检查 JSON 是否合法
+    return null
+  }
+
+  const result = validator.safeParse(value)
+  return result.success ? null : z.prettifyError(result.error)
+}
+
+/**
+ * 解析 JSON 并校验
+ */
+function validateJsonText(text: string, schema: Record<string, unknown> | undefined): string | null {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch (error) {
+    return `invalid JSON: ${(error as Error).message}`
+  }
+  return validateAgainstSchema(value, schema)
+}
+
+/**
+ * 校验模型输出
+ *
+ * - content: 去除代码块后解析 JSON 并校验，成功时返回去除代码块后的文本
+ * - tool_call: 解析工具调用标记，校验指定工具的参数，成功时原样返回
+ *
+ * @param text - 模型输出的完整正文
+ * @param spec - 结构化输出要求
+ */
+export function validateStructuredOutput(text: string, spec: StructuredOutputSpec): StructuredOutputResult {
+  if (spec.target === 'content') {
+    const json = stripCodeFences(text)
+    const error = validateJsonText(json, spec.schema)
+    return error ? { ok: false, text: json, error } : { ok: true, text: json }
+  }
+
+  const parser = createToolCallParser()
+  const segments = [...parser.push(text), ...parser.flush()]
+  const call = segments.find(segment => segment.type === 'tool_call' && segment.call.name === spec.name)
+  if (!call || call.type !== 'tool_call') {
+    return { ok: false, text, error: `expected a call to the tool "${spec.name}"` }
+  }
+
+  const error = validateJsonText(call.call.arguments, spec.schema)
+  return error ? { ok: false, text, error: `invalid arguments: ${error}` } : { ok: true, text }
+}
+
+/**
+ * 构造校验失败后的重新提问
+ *
+ * @param spec - 结构化输出要求
+ * @param error - 校验错误描述
+ */
+export function buildStructuredRetryPrompt(spec: StructuredOutputSpec, error: string) {
+  const action = spec.target === 'tool_call'
+    ? `Call the tool "${spec.name}" again with arguments that match its schema.`
+    : 'Reply again with only the corrected JSON, without Markdown code fences or any other text.'
+  return `Your previous reply is invalid:\n${error}\n${action}`
+}
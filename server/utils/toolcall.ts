@@ -0,0 +1,288 @@
+/**
+ * toolcall.ts - 工具调用模拟模块
+ *
+ * 网页版模型没有原生的 function calling 能力，本模块通过提示词模拟：
+ * 1. 将工具定义与调用格式说明注入 prompt
+ * 2. 从模型输出的文本流中解析工具调用标记，还原为 OpenAI tool_calls
+ *
+ * 工具调用标记格式：
+ * <tool_calls>
+ * [{"name": "get_weather", "arguments": {"city": "Beijing"}}]
+ * </tool_calls>
+ *
+ * 核心函数：
+ * - buildToolPrompt(): 根据 tools/tool_choice 构造工具说明提示词
+ * - formatToolCallsMarkup(): 将历史中的工具调用渲染为标记文本
+ * - createToolCallParser(): 创建流式工具调用解析器
+ */
+
+import type { MiddleContent, MiddleTool, MiddleToolCall } from './converter'
+
+// 工具调用标记的起止标签
+const TOOL_CALLS_OPEN = '<tool_calls>'
+const TOOL_CALLS_CLOSE = '</tool_calls>'
+
+/**
+ * 解析出的工具调用
+ */
+export type ParsedToolCall = {
+  id: string
+  name: string
+  /** JSON 字符串形式的参数 */
+  arguments: string
+}
+
+/**
+ * 解析器输出片段：普通文本或完整的工具调用
+ */
+export type ToolCallSegment
+  = | { type: 'text', text: string }
+    | { type: 'tool_call', call: ParsedToolCall }
+
+/**
+ * 生成工具调用 ID
+ */
+function createToolCallId() {
+  return `call_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * 判断请求是否需要启用工具调用模拟
+ *
+ * tool_choice 为 none 或没有工具定义时不启用
+ *
+ * @param content - 中间格式请求
+ */
+export function isToolCallingEnabled(content: MiddleContent) {
+  return Boolean(content.tools?.length) && content.tool_choice !== 'none'
+}
+
+/**
+ * 根据 tool_choice 过滤出需要暴露给模型的工具
+ *
+ * 指定具体函数时只暴露该函数
+ */
+function resolveExposedTools(content: MiddleContent): MiddleTool[] {
+  const tools = content.tools ?? []
+  const choice = content.tool_choice
+  if (choice && typeof choice === 'object') {
+    const named = tools.filter(tool => tool.function.name === choice.function.name)
+    return named.length ? named : tools
+  }
+  return tools
+}
+
+/**
+ * 构造工具说明提示词
+ *
+ * @param content - 中间格式请求
+ * @returns 工具说明文本，未启用工具时返回空字符串
+ */
+export function buildToolPrompt(content: MiddleContent): string {
+  if (!isToolCallingEnabled(content)) {
+    return ''
+  }
+
+  const tools = resolveExposedTools(content).map(tool => ({
+    name: tool.function.name,
+    description: tool.function.description ?? '',
+    parameters: tool.function.parameters ?? { type: 'object', properties: {} }
+  }))
+
+  // 根据 tool_choice 生成调用要求
+  const choice = content.tool_choice
+  let requirement = 'Call tools only when they are needed to answer; otherwise reply normally.'
+  if (choice === 'required') {
+    requirement = 'You MUST call at least one tool in this reply.'
+  } else if (choice && typeof choice === 'object') {
+    requirement = `You MUST call the tool "${choice.function.name}" in this reply.`
+  }
+
+  return [
+    'You have access to the following tools (JSON Schema):',
+    JSON.stringify(tools, null, 2),
+    '',
+    'To call tools, output exactly the following block and nothing after it:',
+    TOOL_CALLS_OPEN,
+    '[{"name": "<tool name>", "arguments": {<arguments matching the schema>}}]',
+    TOOL_CALLS_CLOSE,
+    'Several tools may be called at once by adding more objects to the array.',
+    'Tool results will be sent back to you as <|tool_outputs|> messages.',
+    requirement
+  ].join('\n')
+}
+
+/**
+ * 将历史消息中的工具调用渲染为标记文本
+ *
+ * 与模型被要求输出的格式保持一致，便于模型模仿
+ *
+ * @param toolCalls - 中间格式工具调用列表
+ */
+export function formatToolCallsMarkup(toolCalls: MiddleToolCall[]): string {
+  const calls = toolCalls
+    .filter(call => call.type === 'function')
+    .map((call) => {
+      let args: unknown = call.function.arguments
+      try {
+        args = JSON.parse(call.function.arguments || '{}')
+      } catch {
+        // 保留原始字符串
+      }
+      return { id: call.id, name: call.function.name, arguments: args }
+    })
+
+  if (!calls.length) {
+    return ''
+  }
+  return `${TOOL_CALLS_OPEN}\n${JSON.stringify(calls)}\n${TOOL_CALLS_CLOSE}`
+}
+
+/**
+ * 解析工具调用块内部的 JSON
+ *
+ * 兼容单个对象、数组以及被 Markdown 代码块包裹的情况
+ *
+ * @param raw - 标签之间的原始文本
+ * @returns 工具调用列表，解析失败返回 null
+ */
+function parseToolCallsBlock(raw: string): ParsedToolCall[] | null {
+  const text = raw.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed]
+  const calls: ParsedToolCall[] = []
+  for (const item of items) {
+    if (!item || typeof item !== 'object') return null
+    const { name, arguments: args } = item as { name?: unknown, arguments?: unknown }
+    if (typeof name !== 'string' || !name) return null
+    calls.push({
+      id: createToolCallId(),
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {})
+    })
+  }
+  return calls
+}
+
+/**
+ * 计算文本结尾与标签开头的最长重叠长度
+ *
+ * 用于在流式输出中暂存可能是标签前缀的片段
+ */
+function partialTagLength(text: string, tag: string) {
+  const max = Math.min(text.length, tag.length - 1)
+  for (let length = max; length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) {
+      return length
+    }
+  }
+  return 0
+}
+
+/**
+ * 创建流式工具调用解析器
+ *
+ * 逐段输入模型输出文本，解析器会：
+ * - 原样输出标签之外的文本（标签前缀会暂存到下一段确认）
+ * - 缓冲标签内部内容，遇到闭合标签后解析为工具调用
+ * - 无法解析的块按原文输出，避免吞掉内容
+ *
+ * @example
+ * ```ts
+ * const parser = createToolCallParser()
+ * for (const segment of parser.push(delta)) { ... }
+ * for (const segment of parser.flush()) { ... }
+ * ```
+ */
+export function createToolCallParser() {
+  // 标签外的待输出文本
+  let pending = ''
+  // 标签内的缓冲内容
+  let block = ''
+  let inBlock = false
+
+  /**
+   * 输入一段文本，返回可以立即输出的片段
+   */
+  const push = (text: string): ToolCallSegment[] => {
+    const segments: ToolCallSegment[] = []
+
+    if (inBlock) {
+      block += text
+    } else {
+      pending += text
+    }
+
+    while (true) {
+      if (!inBlock) {
+        const openIndex = pending.indexOf(TOOL_CALLS_OPEN)
+        if (openIndex === -1) {
+          // 暂存可能是开标签前缀的结尾
+          const keep = partialTagLength(pending, TOOL_CALLS_OPEN)
+          const ready = pending.slice(0, pending.length - keep)
+          if (ready) segments.push({ type: 'text', text: ready })
+          pending = pending.slice(pending.length - keep)
+          break
+        }
+
+        if (openIndex > 0) {
+          segments.push({ type: 'text', text: pending.slice(0, openIndex) })
+        }
+        block = pending.slice(openIndex + TOOL_CALLS_OPEN.length)
+        pending = ''
+        inBlock = true
+      }
+
+      const closeIndex = block.indexOf(TOOL_CALLS_CLOSE)
+      if (closeIndex === -1) break
+
+      const raw = block.slice(0, closeIndex)
+      const calls = parseToolCallsBlock(raw)
+      if (calls) {
+        for (const call of calls) segments.push({ type: 'tool_call', call })
+      } else {
+        segments.push({ type: 'text', text: `${TOOL_CALLS_OPEN}${raw}${TOOL_CALLS_CLOSE}` })
+      }
+
+      pending = block.slice(closeIndex + TOOL_CALLS_CLOSE.length)
+      block = ''
+      inBlock = false
+    }
+
+    return segments
+  }
+
+  /**
+   * 输入结束，输出所有剩余内容
+   *
+   * 未闭合的块会尝试按工具调用解析，失败则按原文输出
+   */
+  const flush = (): ToolCallSegment[] => {
+    const segments: ToolCallSegment[] = []
+    if (inBlock) {
+      const calls = parseToolCallsBlock(block)
+      if (calls) {
+        for (const call of calls) segments.push({ type: 'tool_call', call })
+      } else {
+        segments.push({ type: 'text', text: `${TOOL_CALLS_OPEN}${block}` })
+      }
+    } else if (pending) {
+      segments.push({ type: 'text', text: pending })
+    }
+    pending = ''
+    block = ''
+    inBlock = false
+    return segments
+  }
+
+  return { push, flush }
+}
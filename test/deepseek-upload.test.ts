@@ -0,0 +1,236 @@
+/**
+ * deepseek-upload.test.ts - DeepSeek 图片/文档上传测试
+ *
+ * 通过 projects.deepseek.base_url 指向本地 stub 服务，覆盖：
+ * - 上传文件
+ * - 轮询解析状态直到可用
+ * - 补全请求携带 ref_file_ids
+ * - 下载超过大小限制或指向内网地址时拒绝请求
+ */
+
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { createServer, type IncomingMessage, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadAccounts } from '../server/utils/accounts'
+import { loadConfig } from '../server/utils/config'
+import type { MiddleContent } from '../server/utils/converter'
+import { DeepSeekHandler, RegisterDeepSeekAccounts } from '../server/utils/projects/deepseek'
+
+// 仓库中没有 tokenizer.json，usage 统计按字符数计算
+vi.mock('../server/utils/projects/deepseek/tokenizer', () => ({
+  countTokens: async (text: string) => text.length,
+  truncateToTokenLimit: async (text: string) => text
+}))
+
+// PoW 挑战参数（challenge 在 beforeAll 中按答案 5 计算）
+const POW_CHALLENGE = {
+  algorithm: 'DeepSeekHashV1',
+  challenge: '',
+  salt: 'salt',
+  expire_at: 1,
+  difficulty: 1000,
+  signature: 'signature',
+  target_path: ''
+}
+
+// 1x1 PNG
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==', 'base64')
+
+type StubRequest = { method: string, path: string, body: Buffer }
+
+let server: Server
+let baseUrl: string
+let workDir: string
+const originalCwd = process.cwd()
+
+// stub 服务收到的请求与解析状态
+let requests: StubRequest[] = []
+let pendingPolls = 0
+
+/**
+ * 使用 DeepSeek 的 PoW wasm 计算 DeepSeekHashV1
+ */
+async function deepseekHash(text: string) {
+  const wasm = readFileSync(new URL('../server/utils/projects/deepseek/sha3_wasm_bg.7b9ca65ddd.wasm', import.meta.url))
+  const { instance } = await WebAssembly.instantiate(wasm, {})
+  const exports = instance.exports as {
+    memory: WebAssembly.Memory
+    __wbindgen_add_to_stack_pointer: (delta: number) => number
+    __wbindgen_export_0: (size: number, align: number) => number
+    wasm_deepseek_hash_v1: (retPtr: number, ptr: number, len: number) => void
+  }
+
+  const bytes = new TextEncoder().encode(text)
+  const ptr = exports.__wbindgen_export_0(bytes.length, 1)
+  new Uint8Array(exports.memory.buffer).set(bytes, ptr)
+  const retPtr = exports.__wbindgen_add_to_stack_pointer(-16)
+  exports.wasm_deepseek_hash_v1(retPtr, ptr, bytes.length)
+  const view = new DataView(exports.memory.buffer)
+  const hash = new TextDecoder().decode(new Uint8Array(exports.memory.buffer, view.getInt32(retPtr, true), view.getInt32(retPtr + 4, true)))
+  exports.__wbindgen_add_to_stack_pointer(16)
+  return hash
+}
+
+function readBody(request: IncomingMessage) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+function bizResponse(bizData: unknown) {
+  return JSON.stringify({ code: 0, msg: '', data: { biz_code: 0, biz_msg: '', biz_data: bizData } })
+}
+
+function sseEvent(data: unknown) {
+  return `data: ${JSON.stringify(data)}\n\n`
+}
+
+function requestsTo(path: string) {
+  return requests.filter(request => request.path === path)
+}
+
+async function writeConfig(upload: Record<string, unknown> = {}) {
+  writeFileSync('config.yaml', JSON.stringify({
+    keys: ['test'],
+    projects: { deepseek: { base_url: baseUrl, upload: { poll_interval_ms: 10, ...upload } } }
+  }))
+  await loadConfig()
+}
+
+function imageRequest(image: MiddleContent['messages'][number]['content']): MiddleContent {
+  return {
+    model: 'deepseek-chat',
+    stream: false,
+    messages: [{ role: 'user', content: image }]
+  } as MiddleContent
+}
+
+beforeAll(async () => {
+  POW_CHALLENGE.challenge = await deepseekHash(`${POW_CHALLENGE.salt}_${POW_CHALLENGE.expire_at}_5`)
+
+  server = createServer(async (request, response) => {
+    const url = new URL(request.url!, 'http://stub')
+    const body = await readBody(request)
+    requests.push({ method: request.method!, path: url.pathname, body })
+
+    switch (url.pathname) {
+      case '/api/v0/chat/create_pow_challenge':
+        response.end(bizResponse({ challenge: { ...POW_CHALLENGE, target_path: JSON.parse(body.toString()).target_path } }))
+        return
+      case '/api/v0/chat_session/create':
+        response.end(bizResponse({ id: 'session-1' }))
+        return
+      case '/api/v0/file/upload_file':
+        response.end(bizResponse({ id: 'file-1', status: 'PENDING', file_name: 'image-1.png' }))
+        return
+      case '/api/v0/file/fetch_files': {
+        const status = pendingPolls-- > 0 ? 'PARSING' : 'SUCCESS'
+        response.end(bizResponse({ files: [{ id: url.searchParams.get('file_ids'), status }] }))
+        return
+      }
+      case '/api/v0/chat/completion':
+        response.writeHead(200, { 'content-type': 'text/event-stream' })
+        response.write(sseEvent({ p: 'response/content', v: 'a cat' }))
+        response.end(sseEvent({ p: 'response', o: 'BATCH', v: [{ p: 'status', v: 'FINISHED' }] }))
+        return
+      case '/media/image.png':
+        response.writeHead(200, { 'content-type': 'image/png' })
+        response.end(PNG)
+        return
+      default:
+        response.writeHead(404)
+        response.end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  workDir = mkdtempSync(join(tmpdir(), 'deepseek-upload-'))
+  mkdirSync(join(workDir, 'accounts'))
+  writeFileSync(join(workDir, 'accounts', 'deepseek.json'), JSON.stringify({ type: 'deepseek', email: 'test@example.com', token: 'token' }))
+  process.chdir(workDir)
+
+  await writeConfig()
+  await loadAccounts()
+  RegisterDeepSeekAccounts()
+})
+
+afterAll(async () => {
+  process.chdir(originalCwd)
+  rmSync(workDir, { recursive: true, force: true })
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(async () => {
+  requests = []
+  pendingPolls = 0
+  await writeConfig()
+})
+
+describe('DeepSeek file upload', () => {
+  it('uploads base64 images before the completion', async () => {
+    const response = await DeepSeekHandler(imageRequest([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: PNG.toString('base64') } }
+    ]))
+    await response.text()
+
+    const [upload] = requestsTo('/api/v0/file/upload_file')
+    expect(upload).toBeDefined()
+    expect(upload!.body.includes(PNG)).toBe(true)
+    expect(upload!.body.toString()).toContain('filename="image-1.png"')
+  })
+
+  it('polls the file status until it is ready', async () => {
+    pendingPolls = 2
+
+    const response = await DeepSeekHandler(imageRequest([
+      { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: PNG.toString('base64') } }
+    ]))
+    await response.text()
+
+    expect(requestsTo('/api/v0/file/fetch_files')).toHaveLength(3)
+    // 解析完成后才发起补全
+    const paths = requests.map(request => request.path)
+    expect(paths.lastIndexOf('/api/v0/file/fetch_files')).toBeLessThan(paths.indexOf('/api/v0/chat/completion'))
+  })
+
+  it('attaches uploaded file ids to the completion', async () => {
+    await writeConfig({ allow_private_urls: true })
+
+    const response = await DeepSeekHandler(imageRequest([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', source: { type: 'url', url: `${baseUrl}/media/image.png` } }
+    ]))
+    expect(await response.text()).toContain('a cat')
+
+    const [completion] = requestsTo('/api/v0/chat/completion')
+    expect(JSON.parse(completion!.body.toString()).ref_file_ids).toEqual(['file-1'])
+  })
+
+  it('rejects images on private hosts', async () => {
+    // 主机名在建立连接时解析并校验
+    const url = `${baseUrl.replace('127.0.0.1', 'localhost')}/media/image.png`
+    await expect(DeepSeekHandler(imageRequest([
+      { type: 'image', source: { type: 'url', url } }
+    ]))).rejects.toMatchObject({ statusCode: 400, statusMessage: expect.stringContaining('private or loopback') })
+
+    expect(requests).toHaveLength(0)
+  })
+
+  it('rejects images larger than max_download_bytes', async () => {
+    await writeConfig({ allow_private_urls: true, max_download_bytes: 16 })
+
+    await expect(DeepSeekHandler(imageRequest([
+      { type: 'image', source: { type: 'url', url: `${baseUrl}/media/image.png` } }
+    ]))).rejects.toMatchObject({ statusCode: 400, statusMessage: expect.stringContaining('exceeds 16 bytes') })
+
+    expect(requestsTo('/api/v0/file/upload_file')).toHaveLength(0)
+  })
+})
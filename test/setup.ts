@@ -0,0 +1,10 @@
+/**
+ * setup.ts - 测试环境初始化
+ *
+ * 服务端代码依赖 Nitro 自动导入的 h3 工具函数，测试中直接运行源码时没有自动导入，
+ * 这里把用到的函数挂到全局。
+ */
+
+import { createError } from 'h3'
+
+Object.assign(globalThis, { createError })
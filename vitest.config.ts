@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    // 测试会切换工作目录（config.yaml 与 accounts 按工作目录读取），需要独立进程
+    pool: 'forks'
+  }
+})